@@ -1,5 +1,16 @@
 import { Game } from './components/Game';
+import { useRouter } from './hooks/useRouter';
+import { formatRoute } from './utils/routes';
 
 export function App() {
-  return <Game />;
+  const { route, gameRoute, navigate, closeModal } = useRouter();
+  return (
+    <Game
+      key={formatRoute(gameRoute)}
+      route={route}
+      gameRoute={gameRoute}
+      navigate={navigate}
+      onCloseModal={closeModal}
+    />
+  );
 }
@@ -0,0 +1,73 @@
+import { useMemo } from 'react';
+import type { DailyRecord } from '../../types';
+import { GRADE_COLORS } from '../gradeColors';
+import { getArchiveDates, getPuzzleNumber, getTodayDateString } from '../../dungeon';
+import { useEscapeKey } from '../../hooks/useEscapeKey';
+
+interface ArchivePickerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  history: DailyRecord[];
+  archive: DailyRecord[];
+  onSelect: (date: string) => void;
+}
+
+function ResultBadge({ record }: { record: DailyRecord | undefined }) {
+  if (!record) return <span className="text-text-faint">—</span>;
+  if (record.result === 'loss' && record.declared) return <span className="text-danger" title="Declared the wrong room">🔮</span>;
+  if (record.result === 'loss') return <span title="Killed by the dragon">🐉</span>;
+  if (record.result === 'abandoned') return <span className="text-danger" title="Abandoned">✗</span>;
+  return (
+    <span className="font-bold" style={{ color: GRADE_COLORS[record.grade!] }} title={`${record.moves} moves`}>
+      {record.grade}
+    </span>
+  );
+}
+
+// Every past daily since launch, newest first, with how each went
+export function ArchivePicker({ isOpen, onClose, history, archive, onSelect }: ArchivePickerProps) {
+  useEscapeKey(isOpen, onClose);
+
+  const dates = useMemo(() => getArchiveDates(getTodayDateString()), []);
+  const dailyByDate = useMemo(() => new Map(history.map((r) => [r.date, r])), [history]);
+  const archiveByDate = useMemo(() => new Map(archive.map((r) => [r.date, r])), [archive]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="relative bg-dungeon-floor rounded-lg p-6 max-w-sm w-full pixel-border max-h-[calc(100vh-2rem)] flex flex-col" onClick={e => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-2 right-3 text-text-secondary hover:text-text-primary text-2xl leading-none" aria-label="Close">&times;</button>
+        <h2 className="text-2xl font-bold text-treasure-gold mb-1 text-center">Archive</h2>
+        <p className="text-xs text-text-secondary text-center mb-4">
+          Replay past dailies. Results here don&rsquo;t touch your streak.
+        </p>
+
+        {dates.length === 0 ? (
+          <p className="text-center text-text-dim text-sm">No past puzzles yet — come back tomorrow.</p>
+        ) : (
+          <div className="overflow-y-auto -mx-2">
+            <div className="grid grid-cols-[2.5rem_1fr_3rem_3.5rem] gap-x-3 px-2 text-[10px] text-text-dim tracking-wider mb-1">
+              <span>#</span>
+              <span>DATE</span>
+              <span className="text-center">DAILY</span>
+              <span className="text-center">ARCHIVE</span>
+            </div>
+            {dates.map((date) => (
+              <button
+                key={date}
+                onClick={() => onSelect(date)}
+                className="w-full grid grid-cols-[2.5rem_1fr_3rem_3.5rem] gap-x-3 items-center px-2 py-1.5 rounded text-sm text-left font-mono hover:bg-dungeon-bg transition-colors"
+              >
+                <span className="text-text-secondary">{getPuzzleNumber(date)}</span>
+                <span className="text-text-primary">{date}</span>
+                <span className="text-center"><ResultBadge record={dailyByDate.get(date)} /></span>
+                <span className="text-center"><ResultBadge record={archiveByDate.get(date)} /></span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { ArchivePicker } from './ArchivePicker';
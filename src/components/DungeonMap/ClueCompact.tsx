@@ -1,20 +1,25 @@
-const ARROW_CHARS = /^[←→↑↓↕↔|—]/;
+import type { Clue } from '../../types';
+import { spatialArrow, spatialLabel } from '../../dungeon';
 
-export function ClueCompact({ text, scale, fill, className }: { text: string; scale: number; fill: string; className?: string }) {
-  const match = text.match(ARROW_CHARS);
-  if (match) {
+// Labels longer than this shrink to stay inside the room
+const MAX_COMPACT_LENGTH = 8;
+
+export function ClueCompact({ clue, scale, fill, className }: { clue: Clue; scale: number; fill: string; className?: string }) {
+  if (clue.category === 'spatial' || clue.category === 'negative') {
     return (
       <text x={0} y={18 * scale} textAnchor="middle" fontSize={13 * scale}
         fontFamily="'Courier New', monospace" fill={fill} fontWeight="bold" className={className}>
-        <tspan fontSize={22 * scale} strokeWidth={1.5 * scale} stroke={fill}>{match[0]}</tspan>
-        {text.slice(match[0].length)}
+        {clue.category === 'negative' && 'Not '}
+        <tspan fontSize={22 * scale} strokeWidth={1.5 * scale} stroke={fill}>{spatialArrow(clue)}</tspan>
+        {clue.category === 'spatial' && ` ${spatialLabel(clue)}`}
       </text>
     );
   }
+  const fontSize = 13 * scale * Math.min(1, MAX_COMPACT_LENGTH / clue.compact.length);
   return (
-    <text x={0} y={18 * scale} textAnchor="middle" fontSize={13 * scale}
+    <text x={0} y={18 * scale} textAnchor="middle" fontSize={fontSize}
       fontFamily="'Courier New', monospace" fill={fill} fontWeight="bold" className={className}>
-      {text}
+      {clue.compact}
     </text>
   );
 }
@@ -0,0 +1,60 @@
+import type { KeyboardEvent } from 'react';
+
+interface DeclareSquareProps {
+  x: number;
+  y: number;
+  onClick: (() => void) | null; // null once the game is over
+  isDeclared: boolean;
+  scale: number;
+}
+
+// A grid square out of sight, offered while declaring: it may hold a room or
+// nothing at all, and the player can't tell which. After a game lost by
+// naming an empty square, it shows where the declaration went.
+export function DeclareSquare({ x, y, onClick, isDeclared, scale }: DeclareSquareProps) {
+  const size = 84 * scale;
+  const pad = 8 * scale;
+
+  const focusProps = onClick && {
+    onClick,
+    tabIndex: 0,
+    role: 'button',
+    'aria-label': 'Declare the gem is in this unexplored square',
+    onKeyDown: (e: KeyboardEvent<SVGGElement>) => {
+      if (e.key === 'Enter' || e.key === ' ') {
+        e.preventDefault();
+        onClick();
+      }
+    },
+  };
+
+  return (
+    <g
+      transform={`translate(${x * 100 * scale}, ${y * 100 * scale})`}
+      {...focusProps}
+      style={{ cursor: onClick ? 'pointer' : 'default', userSelect: 'none' }}
+      className={onClick ? 'room-focusable' : ''}
+    >
+      <rect
+        x={-size / 2} y={-size / 2}
+        width={size} height={size}
+        rx={4} ry={4}
+        fill="transparent" stroke="#5a5a7a"
+        strokeWidth={2} strokeDasharray={`${6 * scale} ${4 * scale}`} opacity={0.4}
+      />
+
+      {isDeclared && (
+        <text x={size / 2 - pad - 2 * scale} y={size / 2 - pad - 2 * scale} textAnchor="end"
+          fontSize={13 * scale}>
+          🔮
+        </text>
+      )}
+
+      {onClick && (
+        <rect x={-size / 2} y={-size / 2} width={size} height={size}
+          rx={4} ry={4} fill="transparent" stroke="#ffd700"
+          strokeWidth={2} opacity={0} className="room-hover" />
+      )}
+    </g>
+  );
+}
@@ -2,13 +2,27 @@ import { useMemo, useRef } from 'react';
 import type { GameState } from '../../types';
 import { Room } from './Room';
 import { Door } from './Door';
+import { DeclareSquare } from './DeclareSquare';
 import { useAnimatedViewBox } from '../../hooks/useAnimatedViewBox';
+import { describeDirection } from '../../dungeon';
+
+// Squares beyond the rooms in sight that can be named as the gem's
+const DECLARE_REACH = 2;
 
 interface DungeonMapProps {
   gameState: GameState;
   onMoveToRoom: (roomId: number) => void;
   canMoveTo: (roomId: number) => boolean;
   isRoomVisible: (roomId: number) => boolean;
+  candidateRoomIds: Set<number> | null; // rooms not in the set are dimmed; null hides the overlay
+  hintRoomIds: Set<number>;
+  smokyRoomIds: Set<number>; // rooms next to the dragon's lair
+  onMarkRoom: (roomId: number) => void;
+  isDeclaring: boolean; // room taps declare the gem instead of moving
+  onDeclareRoom: (roomId: number) => void;
+  onDeclareAt: (x: number, y: number) => void; // a square out of sight, room or not
+  replayRoute?: number[] | null; // rooms walked so far in a replay, drawn as a trail
+  shortestRoute?: number[] | null; // drawn dashed for comparison
 }
 
 export function DungeonMap({
@@ -16,21 +30,30 @@ export function DungeonMap({
   onMoveToRoom,
   canMoveTo,
   isRoomVisible,
+  candidateRoomIds,
+  hintRoomIds,
+  smokyRoomIds,
+  onMarkRoom,
+  isDeclaring,
+  onDeclareRoom,
+  onDeclareAt,
+  replayRoute = null,
+  shortestRoute = null,
 }: DungeonMapProps) {
-  const { dungeon, currentRoomId, visitedRoomIds, clues, hasWon, hasLost } = gameState;
+  const { dungeon, currentRoomId, visitedRoomIds, clues, marks, declaredRoomId, declaredSquare, hasWon, hasLost } = gameState;
   const gameOver = hasWon || hasLost;
 
-  // Full dungeon bounds (used for game over)
+  // Full dungeon bounds (used for game over), and an empty square declared
   const fullBounds = useMemo(() => {
-    const xs = dungeon.rooms.map((r) => r.x);
-    const ys = dungeon.rooms.map((r) => r.y);
+    const xs = [...dungeon.rooms.map((r) => r.x), ...(declaredSquare ? [declaredSquare[0]] : [])];
+    const ys = [...dungeon.rooms.map((r) => r.y), ...(declaredSquare ? [declaredSquare[1]] : [])];
     return {
       minX: Math.min(...xs),
       maxX: Math.max(...xs),
       minY: Math.min(...ys),
       maxY: Math.max(...ys),
     };
-  }, [dungeon.rooms]);
+  }, [dungeon.rooms, declaredSquare]);
 
   // Visible-only bounds (used during active gameplay)
   const visibleBounds = useMemo(() => {
@@ -46,7 +69,29 @@ export function DungeonMap({
     };
   }, [dungeon.rooms, isRoomVisible, fullBounds]);
 
-  const bounds = gameOver ? fullBounds : visibleBounds;
+  // While declaring, the view widens to take in squares out of sight
+  const declareBounds = {
+    minX: visibleBounds.minX - DECLARE_REACH,
+    maxX: visibleBounds.maxX + DECLARE_REACH,
+    minY: visibleBounds.minY - DECLARE_REACH,
+    maxY: visibleBounds.maxY + DECLARE_REACH,
+  };
+
+  const bounds = gameOver ? fullBounds : isDeclaring ? declareBounds : visibleBounds;
+
+  // Every square in view without a room the player can see, whether or not
+  // a room lies there unseen
+  const hiddenSquares = useMemo(() => {
+    if (!isDeclaring || gameOver) return [];
+    const seen = new Set(dungeon.rooms.filter((r) => isRoomVisible(r.id)).map((r) => `${r.x},${r.y}`));
+    const squares: Array<[number, number]> = [];
+    for (let x = bounds.minX; x <= bounds.maxX; x++) {
+      for (let y = bounds.minY; y <= bounds.maxY; y++) {
+        if (!seen.has(`${x},${y}`)) squares.push([x, y]);
+      }
+    }
+    return squares;
+  }, [isDeclaring, gameOver, dungeon.rooms, isRoomVisible, bounds.minX, bounds.maxX, bounds.minY, bounds.maxY]);
 
   const scale = 1;
   const padding = 50;
@@ -78,6 +123,12 @@ export function DungeonMap({
 
   const aspectRatio = width / height;
 
+  const roomById = useMemo(() => new Map(dungeon.rooms.map((r) => [r.id, r])), [dungeon.rooms]);
+  const toPoints = (route: number[]) => route
+    .map((id) => roomById.get(id)!)
+    .map((room) => `${room.x * 100 * scale},${room.y * 100 * scale}`)
+    .join(' ');
+
   const svgRef = useRef<SVGSVGElement>(null);
   const gRef = useRef<SVGGElement>(null);
   useAnimatedViewBox(svgRef, gRef, { width, height, offsetX, offsetY });
@@ -97,9 +148,9 @@ export function DungeonMap({
             const bothVisited = visitedRoomIds.has(room1Id) && visitedRoomIds.has(room2Id);
             const oneIsCurrent = room1Id === currentRoomId || room2Id === currentRoomId;
             const isVisible = gameOver || bothVisited || oneIsCurrent;
-            const canTraverse =
+            const canTraverse = !isDeclaring && (
               (currentRoomId === room1Id && canMoveTo(room2Id)) ||
-              (currentRoomId === room2Id && canMoveTo(room1Id));
+              (currentRoomId === room2Id && canMoveTo(room1Id)));
 
             return (
               <Door
@@ -127,7 +178,8 @@ export function DungeonMap({
             const isVisible = isRoomVisible(room.id);
             const isTreasure = room.id === dungeon.treasureId;
             const isDragon = room.id === dungeon.dragonId;
-            const canClick = canMoveTo(room.id);
+            const canClick = isDeclaring ? !gameOver && isVisible && !isVisited : canMoveTo(room.id);
+            const isEliminated = !gameOver && candidateRoomIds !== null && !candidateRoomIds.has(room.id);
 
             return (
               <Room
@@ -139,13 +191,41 @@ export function DungeonMap({
                 isVisible={isVisible}
                 isTreasure={isTreasure}
                 isDragon={isDragon}
+                isEliminated={isEliminated}
+                isHinted={!gameOver && hintRoomIds.has(room.id)}
+                isSmoky={smokyRoomIds.has(room.id)}
+                mark={marks.get(room.id) ?? null}
+                isDeclared={room.id === declaredRoomId}
                 gameOver={gameOver}
-                onClick={() => onMoveToRoom(room.id)}
+                onClick={() => (isDeclaring ? onDeclareRoom(room.id) : onMoveToRoom(room.id))}
+                onMark={!gameOver && isVisible ? () => onMarkRoom(room.id) : null}
                 canClick={canClick}
+                label={isDeclaring
+                  ? 'Declare the gem is here'
+                  : `Move ${describeDirection(roomById.get(currentRoomId)!, room)}${clue && !isVisited ? `, ${clue.icon} clue` : ''}`}
                 scale={scale}
               />
             );
           })}
+
+          {hiddenSquares.map(([x, y]) => (
+            <DeclareSquare key={`${x},${y}`} x={x} y={y} onClick={() => onDeclareAt(x, y)} isDeclared={false} scale={scale} />
+          ))}
+
+          {gameOver && declaredSquare && (
+            <DeclareSquare x={declaredSquare[0]} y={declaredSquare[1]} onClick={null} isDeclared scale={scale} />
+          )}
+
+          {shortestRoute && shortestRoute.length > 1 && (
+            <polyline points={toPoints(shortestRoute)} fill="none" stroke="#e8e8f0" strokeWidth={4 * scale}
+              strokeDasharray={`${10 * scale} ${8 * scale}`} strokeLinecap="round" strokeLinejoin="round"
+              opacity={0.5} pointerEvents="none" />
+          )}
+
+          {replayRoute && replayRoute.length > 1 && (
+            <polyline points={toPoints(replayRoute)} fill="none" stroke="#ffd700" strokeWidth={5 * scale}
+              strokeLinecap="round" strokeLinejoin="round" opacity={0.6} pointerEvents="none" />
+          )}
         </g>
       </svg>
     </div>
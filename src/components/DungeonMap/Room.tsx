@@ -1,4 +1,6 @@
-import type { Room as RoomType, Clue } from '../../types';
+import type { Room as RoomType, Clue, RoomMark } from '../../types';
+import type { KeyboardEvent } from 'react';
+import { useLongPress } from '../../hooks/useLongPress';
 import { ClueCompact } from './ClueCompact';
 
 interface RoomProps {
@@ -9,9 +11,16 @@ interface RoomProps {
   isVisible: boolean;
   isTreasure: boolean;
   isDragon: boolean;
+  isEliminated: boolean;
+  isHinted: boolean;
+  isSmoky: boolean;
+  mark: RoomMark | null;
+  isDeclared: boolean;
   gameOver: boolean;
   onClick: () => void;
+  onMark: (() => void) | null; // null when the room can't be marked
   canClick: boolean;
+  label: string; // read out when the room takes keyboard focus
   scale: number;
 }
 
@@ -23,9 +32,16 @@ export function Room({
   isVisible,
   isTreasure,
   isDragon,
+  isEliminated,
+  isHinted,
+  isSmoky,
+  mark,
+  isDeclared,
   gameOver,
   onClick,
+  onMark,
   canClick,
+  label,
   scale,
 }: RoomProps) {
   const size = 84 * scale;
@@ -33,6 +49,20 @@ export function Room({
   const x = room.x * 100 * scale;
   const y = room.y * 100 * scale;
   const clipId = `room-clip-${room.id}`;
+  const markHandlers = useLongPress(() => onMark?.());
+
+  // Rooms you can act on join the Tab order; Enter or Space confirms
+  const focusProps = {
+    tabIndex: 0,
+    role: 'button',
+    'aria-label': label,
+    onKeyDown: (e: KeyboardEvent<SVGGElement>) => {
+      if (e.key === 'Enter' || e.key === ' ') {
+        e.preventDefault();
+        onClick();
+      }
+    },
+  };
 
   let fillColor = '#2d2d44';
   let strokeColor = '#4a4a6a';
@@ -56,6 +86,11 @@ export function Room({
     opacity = 0.5;
   }
 
+  // Deduction overlay: fade rooms that can no longer hold the gem
+  if (isEliminated && isVisible && !isCurrent && !isVisited) {
+    opacity = 0.15;
+  }
+
   if (isTreasure && (isVisited || isCurrent || gameOver)) {
     fillColor = '#3d3520';
     strokeColor = '#ffd700';
@@ -70,8 +105,10 @@ export function Room({
     <g
       transform={`translate(${x}, ${y})`}
       onClick={canClick ? onClick : undefined}
-      style={{ cursor: canClick ? 'pointer' : 'default' }}
-      className={isCurrent ? 'current-room' : ''}
+      {...(onMark ? markHandlers : {})}
+      {...(canClick ? focusProps : {})}
+      style={{ cursor: canClick ? 'pointer' : 'default', WebkitTouchCallout: 'none', userSelect: 'none' }}
+      className={`${isCurrent ? 'current-room' : ''} ${canClick ? 'room-focusable' : ''}`}
     >
       <rect
         x={-size / 2} y={-size / 2}
@@ -118,21 +155,21 @@ export function Room({
               <text x={0} y={-6 * scale} textAnchor="middle" fontSize={16 * scale} className="clue-reveal">
                 {clue.icon}
               </text>
-              <ClueCompact text={clue.compact} scale={scale} fill="#ffd700" className="clue-reveal" />
+              <ClueCompact clue={clue} scale={scale} fill="#ffd700" className="clue-reveal" />
             </>
           ) : isVisited && clue ? (
             <>
               <text x={0} y={-6 * scale} textAnchor="middle" fontSize={16 * scale}>
                 {clue.icon}
               </text>
-              <ClueCompact text={clue.compact} scale={scale} fill="#9898b0" />
+              <ClueCompact clue={clue} scale={scale} fill="#9898b0" />
             </>
           ) : clue && gameOver ? (
             <>
               <text x={0} y={-6 * scale} textAnchor="middle" fontSize={16 * scale}>
                 {clue.icon}
               </text>
-              <ClueCompact text={clue.compact} scale={scale} fill="#9898b0" />
+              <ClueCompact clue={clue} scale={scale} fill="#9898b0" />
             </>
           ) : clue ? (
             <text x={0} y={6 * scale} textAnchor="middle" fontSize={22 * scale} opacity={0.6}>
@@ -145,6 +182,20 @@ export function Room({
             </text>
           )}
 
+          {isSmoky && (isVisited || isCurrent || gameOver) && !isTreasure && (
+            <text x={size / 2 - pad - 2 * scale} y={-size / 2 + pad + 12 * scale} textAnchor="end"
+              fontSize={13 * scale} opacity={0.8}>
+              💨
+            </text>
+          )}
+
+          {isDeclared && (
+            <text x={size / 2 - pad - 2 * scale} y={size / 2 - pad - 2 * scale} textAnchor="end"
+              fontSize={13 * scale}>
+              🔮
+            </text>
+          )}
+
           {isCurrent && !isTreasure && !isDragon && (
             <text x={0} y={-22 * scale} textAnchor="middle" fontSize={10 * scale}
               fill="#ffd700" fontFamily="'Courier New', monospace">
@@ -154,6 +205,27 @@ export function Room({
         </g>
       )}
 
+      {/* Player marks: a cross for ruled out, a tag in the top-left corner for suspicions */}
+      {mark === 'ruled-out' && isVisible && (
+        <g stroke="#ff4444" strokeWidth={3 * scale} strokeLinecap="round" opacity={0.55}>
+          <line x1={-size / 2 + pad} y1={-size / 2 + pad} x2={size / 2 - pad} y2={size / 2 - pad} />
+          <line x1={size / 2 - pad} y1={-size / 2 + pad} x2={-size / 2 + pad} y2={size / 2 - pad} />
+        </g>
+      )}
+
+      {(mark === 'suspect' || mark === 'dragon') && isVisible && (
+        <text x={-size / 2 + pad} y={-size / 2 + pad + 12 * scale} fontSize={13 * scale}
+          fill={mark === 'suspect' ? '#ffd700' : '#ff4444'} fontFamily="'Courier New', monospace" fontWeight="bold">
+          {mark === 'suspect' ? '💎?' : '🐉?'}
+        </text>
+      )}
+
+      {isHinted && isVisible && (
+        <rect x={-size / 2 - 4} y={-size / 2 - 4} width={size + 8} height={size + 8}
+          rx={6} ry={6} fill="none" stroke="#ffd700" strokeWidth={2}
+          strokeDasharray={`${6 * scale} ${4 * scale}`} opacity={0.8} />
+      )}
+
       {canClick && (
         <rect x={-size / 2} y={-size / 2} width={size} height={size}
           rx={4} ry={4} fill="transparent" stroke="#ffd700"
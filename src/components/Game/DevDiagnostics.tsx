@@ -0,0 +1,31 @@
+import { useMemo } from 'react';
+import type { GameState, GeneratorOptions } from '../../types';
+import { validateDungeon } from '../../dungeon';
+
+interface DevDiagnosticsProps {
+  gameState: GameState;
+  generatorOptions: Partial<GeneratorOptions>;
+}
+
+// Dev-only overlay listing broken dungeon invariants for the current map
+export function DevDiagnostics({ gameState, generatorOptions }: DevDiagnosticsProps) {
+  const violations = useMemo(
+    () => validateDungeon(gameState.dungeon, gameState.clues, generatorOptions),
+    [gameState.dungeon, gameState.clues, generatorOptions]
+  );
+
+  if (violations.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-2 left-2 z-40 max-w-xs bg-dungeon-bg/90 border border-dungeon-wall rounded p-2 text-[10px] font-mono">
+      <p className="text-text-secondary mb-1">[Dev] {violations.length} invariant violation(s)</p>
+      <ul className="space-y-0.5">
+        {violations.map((v, i) => (
+          <li key={i} className={v.severity === 'error' ? 'text-danger' : 'text-text-warm'}>
+            {v.code}: {v.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
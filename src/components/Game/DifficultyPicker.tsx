@@ -0,0 +1,27 @@
+import type { Difficulty } from '../../types';
+import { DIFFICULTIES, DIFFICULTY_PRESETS } from '../../dungeon';
+
+interface DifficultyPickerProps {
+  current?: Difficulty;
+  onSelect: (difficulty: Difficulty) => void;
+}
+
+export function DifficultyPicker({ current, onSelect }: DifficultyPickerProps) {
+  return (
+    <div className="flex gap-2 justify-center">
+      {DIFFICULTIES.map((tier) => (
+        <button
+          key={tier}
+          onClick={() => onSelect(tier)}
+          className={`text-xs px-3 py-1 rounded border transition-colors ${
+            tier === current
+              ? 'border-treasure-gold text-treasure-gold'
+              : 'border-dungeon-wall text-text-secondary hover:border-treasure-gold hover:text-treasure-gold'
+          }`}
+        >
+          {DIFFICULTY_PRESETS[tier].label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -1,26 +1,52 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useGame } from '../../hooks/useGame';
 import { useStats } from '../../hooks/useStats';
+import { useReplay } from '../../hooks/useReplay';
+import { useGameKeys } from '../../hooks/useGameKeys';
 import { DungeonMap } from '../DungeonMap';
 import { ShareModal } from '../ShareModal';
 import { HowToPlay } from '../HowToPlay';
 import { Stats } from '../Stats';
+import { ArchivePicker } from '../Archive';
 import { GameHeader } from './GameHeader';
 import { GameFooter } from './GameFooter';
 import { GameStatus } from './GameStatus';
+import { DevDiagnostics } from './DevDiagnostics';
+import { ReplayControls } from './ReplayControls';
+import { DIFFICULTY_PRESETS, analyzeGame, formatHint, getShortestRoute, pickPracticeSeed } from '../../dungeon';
+import { getReplayFrame, hasDeclared } from '../../engine';
+import { createDailyRecord } from '../../utils/stats';
+import type { Difficulty, GameRoute, PathStep, Route } from '../../types';
+
+const isDev = import.meta.env.DEV;
+
+interface GameProps {
+  route: Route;
+  gameRoute: GameRoute;
+  navigate: (route: Route, options?: { replace?: boolean }) => void;
+  onCloseModal: () => void;
+}
+
+// Plays the puzzle for gameRoute; remounted whenever that changes
+export function Game({ route, gameRoute, navigate, onCloseModal }: GameProps) {
+  const {
+    gameState, currentClue, par, pickaxes, dateString, puzzleNumber, abandonedRecord, isPractice, practiceSeedCode, archiveDate, difficulty,
+    showDeduction, candidateRoomIds, smokyRoomIds, toggleDeduction, hints, requestHint,
+    moveToRoom, markRoom, isDeclaring, toggleDeclaring, declareRoom, declareAt, allowsUndo, canUndo, undo, restart, canMoveTo, isRoomVisible,
+  } = useGame(gameRoute);
 
-export function Game() {
   const {
-    gameState, currentClue, par, puzzleNumber, isPractice,
-    moveToRoom, canMoveTo, isRoomVisible, startPractice, tryAnother, backToDaily,
-  } = useGame();
+    stats, recordDaily, recordArchive, recordPracticeWin, recordPracticeLoss, hasPlayedToday, averageMoves, winPercentage,
+  } = useStats();
 
-  const { stats, recordWin, hasPlayedToday, averageMoves } = useStats();
+  // Rooms pointed at by revealed hints
+  const hintRoomIds = new Set(hints.flatMap((hint) => (hint.kind === 'candidates' ? hint.roomIds : [hint.roomId])));
 
   // If game was restored as already won, show modal immediately
   const restoredAsWon = gameState.hasWon && gameState.moveCount > 0;
   const [showShareModal, setShowShareModal] = useState(restoredAsWon);
-  const [showHowToPlay, setShowHowToPlay] = useState(() => {
+  // The first-visit tutorial opens without a history entry of its own
+  const [showTutorial, setShowTutorial] = useState(() => {
     if (restoredAsWon) return false; // Don't show tutorial over completed game
     const seen = localStorage.getItem('gunud-tutorial-seen');
     if (!seen) {
@@ -29,25 +55,86 @@ export function Game() {
     }
     return false;
   });
-  const [showStats, setShowStats] = useState(false);
-  const hasRecordedWin = useRef(restoredAsWon);
+  const showHowToPlay = showTutorial || route.view === 'how-to-play';
+  const closeHowToPlay = () => {
+    setShowTutorial(false);
+    if (route.view === 'how-to-play') onCloseModal();
+  };
+
+  // Replays belong to the path they were opened on
+  const [replayedPath, setReplayedPath] = useState<PathStep[] | null>(null);
+  const isGameOver = gameState.hasWon || gameState.hasLost;
+  const isReplaying = replayedPath === gameState.path && isGameOver;
+  const replay = useReplay(gameState.path.length);
+  const [showShortestRoute, setShowShortestRoute] = useState(false);
+  const shortestRoute = useMemo(
+    () => {
+      const { rooms, entranceId, treasureId, dragonId } = gameState.dungeon;
+      return getShortestRoute(rooms, entranceId, treasureId, dragonId);
+    },
+    [gameState.dungeon]
+  );
+  const analysis = useMemo(
+    () => (isGameOver ? analyzeGame(gameState.dungeon, gameState.clues, gameState.path.map((step) => step.roomId)) : null),
+    [isGameOver, gameState.dungeon, gameState.clues, gameState.path]
+  );
+  const replayFrame = isReplaying ? getReplayFrame(gameState, replay.step) : null;
+  const replayStep = replayFrame?.path.at(-1);
+  const startReplay = () => {
+    setReplayedPath(gameState.path);
+    replay.seek(0);
+    replay.play();
+  };
+
+  // Game keys are off while a modal or the replay covers the map
+  const isCovered = showHowToPlay || route.view === 'stats' || route.view === 'archive-list' ||
+    (showShareModal && gameState.hasWon) || isReplaying;
+  useGameKeys({ gameState, enabled: !isCovered, isDeclaring, allowsUndo, moveToRoom, undo, restart });
+
+  const startPractice = (tier: Difficulty) => navigate({ view: 'practice', seed: pickPracticeSeed(tier) });
+  const backToDaily = () => navigate({ view: 'daily' });
+  const hasRecordedResult = useRef(restoredAsWon || gameState.hasLost);
 
-  // Reset win tracking when dungeon changes (practice mode transitions)
+  // Reset result tracking when the daily rolls over to a new dungeon;
+  // a restored puzzle that was already finished has nothing left to record
   const dungeonIdRef = useRef(gameState.dungeon);
   useEffect(() => {
     if (gameState.dungeon !== dungeonIdRef.current) {
       dungeonIdRef.current = gameState.dungeon;
-      hasRecordedWin.current = false;
+      hasRecordedResult.current = gameState.hasWon || gameState.hasLost;
     }
-  }, [gameState.dungeon]);
+  }, [gameState.dungeon, gameState.hasWon, gameState.hasLost]);
+
+  // An earlier daily left unfinished counts as played but not won
+  useEffect(() => {
+    if (abandonedRecord) recordDaily(abandonedRecord);
+  }, [abandonedRecord, recordDaily]);
+
+  // Handle dragon deaths
+  useEffect(() => {
+    if (gameState.hasLost && !hasRecordedResult.current) {
+      if (isPractice) {
+        recordPracticeLoss(difficulty);
+      } else if (archiveDate) {
+        recordArchive(createDailyRecord(archiveDate, gameState, par));
+      } else if (!hasPlayedToday) {
+        recordDaily(createDailyRecord(dateString, gameState, par));
+      }
+      hasRecordedResult.current = true;
+    }
+  }, [gameState, hasPlayedToday, dateString, par, isPractice, archiveDate, difficulty, recordDaily, recordArchive, recordPracticeLoss]);
 
   // Handle win (only for fresh wins, not restored)
   useEffect(() => {
-    if (gameState.hasWon && !hasRecordedWin.current) {
-      if (!isPractice && !hasPlayedToday) {
-        recordWin(gameState.moveCount, par);
+    if (gameState.hasWon && !hasRecordedResult.current) {
+      if (isPractice) {
+        recordPracticeWin(difficulty, gameState.moveCount, par, gameState.hintsUsed, hasDeclared(gameState));
+      } else if (archiveDate) {
+        recordArchive(createDailyRecord(archiveDate, gameState, par));
+      } else if (!hasPlayedToday) {
+        recordDaily(createDailyRecord(dateString, gameState, par));
       }
-      hasRecordedWin.current = true;
+      hasRecordedResult.current = true;
       if (!isPractice) {
         // Delay showing modal for dramatic effect (let treasure pulse play)
         setTimeout(() => {
@@ -55,44 +142,109 @@ export function Game() {
         }, 500);
       }
     }
-  }, [gameState.hasWon, gameState.moveCount, hasPlayedToday, recordWin, par, isPractice]);
+  }, [gameState, hasPlayedToday, dateString, recordDaily, recordArchive, recordPracticeWin, par, isPractice, archiveDate, difficulty]);
 
   return (
     <div className="min-h-screen flex flex-col">
       <GameHeader
         puzzleNumber={puzzleNumber}
         isPractice={isPractice}
-        onShowHelp={() => setShowHowToPlay(true)}
-        onShowStats={() => setShowStats(true)}
+        isArchive={archiveDate !== null}
+        difficulty={difficulty}
+        pickaxes={pickaxes}
+        onShowHelp={() => navigate({ view: 'how-to-play' })}
+        onShowArchive={() => navigate({ view: 'archive-list' })}
+        onShowStats={() => navigate({ view: 'stats' })}
       />
 
       <main className="flex-1 flex flex-col items-center justify-center p-4">
         <DungeonMap
-          gameState={gameState}
+          gameState={replayFrame ?? gameState}
           onMoveToRoom={moveToRoom}
           canMoveTo={canMoveTo}
           isRoomVisible={isRoomVisible}
+          candidateRoomIds={showDeduction ? candidateRoomIds : null}
+          hintRoomIds={hintRoomIds}
+          smokyRoomIds={smokyRoomIds}
+          onMarkRoom={markRoom}
+          isDeclaring={isDeclaring}
+          onDeclareRoom={declareRoom}
+          onDeclareAt={declareAt}
+          replayRoute={replayFrame?.path.map((step) => step.roomId)}
+          shortestRoute={isReplaying && showShortestRoute ? shortestRoute : null}
         />
 
         <div className="mt-6 text-center">
-          <GameStatus
-            hasWon={gameState.hasWon}
-            hasLost={gameState.hasLost}
-            isPractice={isPractice}
-            moveCount={gameState.moveCount}
-            visitedCount={gameState.visitedRoomIds.size}
-            par={par}
-            currentClue={currentClue}
-            onShowShareModal={() => setShowShareModal(true)}
-            onStartPractice={startPractice}
-            onTryAnother={tryAnother}
-            onBackToDaily={backToDaily}
-          />
+          {replayFrame && replayStep ? (
+            <div className="flex justify-center">
+              <ReplayControls
+                step={replay.step}
+                stepCount={gameState.path.length}
+                move={replayStep.move}
+                clue={replayStep.clueRevealed ? gameState.clues.get(replayStep.roomId) ?? null : null}
+                isPlaying={replay.isPlaying}
+                onPlay={replay.play}
+                onPause={replay.pause}
+                onStepBy={replay.stepBy}
+                onSeek={replay.seek}
+                showShortestRoute={showShortestRoute}
+                shortestRouteMoves={shortestRoute.length - 1}
+                onToggleShortestRoute={() => setShowShortestRoute((prev) => !prev)}
+                onClose={() => setReplayedPath(null)}
+              />
+            </div>
+          ) : (
+            <GameStatus
+              hasWon={gameState.hasWon}
+              hasLost={gameState.hasLost}
+              declared={hasDeclared(gameState)}
+              isPractice={isPractice}
+              isArchive={archiveDate !== null}
+              practiceSeedCode={practiceSeedCode}
+              difficulty={difficulty}
+              moveCount={gameState.moveCount}
+              visitedCount={gameState.visitedRoomIds.size}
+              par={par}
+              currentClue={currentClue}
+              clues={gameState.clues}
+              analysis={analysis}
+              smellsSmoke={smokyRoomIds.has(gameState.currentRoomId)}
+              showDeduction={showDeduction}
+              candidateCount={candidateRoomIds.size}
+              onToggleDeduction={toggleDeduction}
+              hintTexts={hints.map((hint) => formatHint(hint, gameState.dungeon, gameState.clues, gameState.currentRoomId))}
+              hintsUsed={gameState.hintsUsed}
+              onRequestHint={requestHint}
+              isDeclaring={isDeclaring}
+              onToggleDeclaring={toggleDeclaring}
+              allowsUndo={allowsUndo}
+              canUndo={canUndo}
+              canRestart={gameState.moveCount > 0 || isGameOver}
+              onUndo={undo}
+              onRestart={restart}
+              onShowShareModal={() => setShowShareModal(true)}
+              onStartPractice={startPractice}
+              onTryAnother={() => startPractice(difficulty)}
+              onBackToDaily={backToDaily}
+            />
+          )}
+          {!isReplaying && isGameOver && gameState.path.length > 1 && (
+            <button
+              onClick={startReplay}
+              className="mt-3 block mx-auto text-xs text-text-dim hover:text-treasure-gold transition-colors"
+            >
+              ▶ Watch replay
+            </button>
+          )}
         </div>
       </main>
 
       <GameFooter />
 
+      {isDev && (
+        <DevDiagnostics gameState={gameState} generatorOptions={DIFFICULTY_PRESETS[difficulty].generator} />
+      )}
+
       <ShareModal
         isOpen={showShareModal && gameState.hasWon}
         onClose={() => setShowShareModal(false)}
@@ -102,15 +254,30 @@ export function Game() {
         visitedRoomIds={gameState.visitedRoomIds}
         dungeon={gameState.dungeon}
         clueCount={gameState.visitedRoomIds.size}
+        assisted={gameState.assisted}
+        hintsUsed={gameState.hintsUsed}
+        seedCode={practiceSeedCode}
+        declared={hasDeclared(gameState)}
+        clues={gameState.clues}
+        analysis={analysis}
       />
 
-      <HowToPlay isOpen={showHowToPlay} onClose={() => setShowHowToPlay(false)} />
+      <HowToPlay isOpen={showHowToPlay} onClose={closeHowToPlay} />
+
+      <ArchivePicker
+        isOpen={route.view === 'archive-list'}
+        onClose={onCloseModal}
+        history={stats.history}
+        archive={stats.archive}
+        onSelect={(date) => navigate({ view: 'archive', date }, { replace: true })}
+      />
 
       <Stats
-        isOpen={showStats}
-        onClose={() => setShowStats(false)}
+        isOpen={route.view === 'stats'}
+        onClose={onCloseModal}
         stats={stats}
         averageMoves={averageMoves}
+        winPercentage={winPercentage}
       />
     </div>
   );
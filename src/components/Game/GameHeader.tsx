@@ -1,23 +1,43 @@
-import { HiQuestionMarkCircle, HiChartBar } from 'react-icons/hi2';
+import { HiQuestionMarkCircle, HiChartBar, HiArchiveBox } from 'react-icons/hi2';
+import type { Difficulty } from '../../types';
+import { DIFFICULTY_PRESETS, MAX_PICKAXES } from '../../dungeon';
 
 interface GameHeaderProps {
   puzzleNumber: number;
   isPractice: boolean;
+  isArchive: boolean;
+  difficulty: Difficulty;
+  pickaxes: number;
   onShowHelp: () => void;
+  onShowArchive: () => void;
   onShowStats: () => void;
 }
 
-export function GameHeader({ puzzleNumber, isPractice, onShowHelp, onShowStats }: GameHeaderProps) {
+export function GameHeader({
+  puzzleNumber, isPractice, isArchive, difficulty, pickaxes, onShowHelp, onShowArchive, onShowStats,
+}: GameHeaderProps) {
+  const tierLabel = DIFFICULTY_PRESETS[difficulty].label.toUpperCase();
+  const modeLabel = isPractice ? 'PRACTICE' : isArchive ? `ARCHIVE #${puzzleNumber}` : `PUZZLE #${puzzleNumber}`;
+
   return (
     <header className="border-b border-dungeon-wall/40">
       <div className="flex items-center justify-between max-w-md mx-auto px-4 py-4">
-        <button
-          onClick={onShowHelp}
-          className="text-text-muted hover:text-treasure-gold transition-colors"
-          title="How to Play"
-        >
-          <HiQuestionMarkCircle size={24} />
-        </button>
+        <div className="flex-1 flex items-center gap-3">
+          <button
+            onClick={onShowHelp}
+            className="text-text-muted hover:text-treasure-gold transition-colors"
+            title="How to Play"
+          >
+            <HiQuestionMarkCircle size={24} />
+          </button>
+          <button
+            onClick={onShowArchive}
+            className="text-text-muted hover:text-treasure-gold transition-colors"
+            title="Archive"
+          >
+            <HiArchiveBox size={24} />
+          </button>
+        </div>
 
         <div className="text-center">
           <h1
@@ -27,17 +47,24 @@ export function GameHeader({ puzzleNumber, isPractice, onShowHelp, onShowStats }
             /ˈɡunʊd/
           </h1>
           <p className="text-[10px] text-text-muted tracking-[0.25em] mt-0.5">
-            {isPractice ? 'PRACTICE' : `PUZZLE #${puzzleNumber}`}
+            {modeLabel} · {tierLabel}
+          </p>
+          <p className="text-[10px] mt-0.5" title={`Difficulty ${pickaxes} of ${MAX_PICKAXES}`} aria-label={`Difficulty ${pickaxes} of ${MAX_PICKAXES}`}>
+            {Array.from({ length: MAX_PICKAXES }, (_, i) => (
+              <span key={i} className={i < pickaxes ? '' : 'opacity-20 grayscale'}>⛏️</span>
+            ))}
           </p>
         </div>
 
-        <button
-          onClick={onShowStats}
-          className="text-text-muted hover:text-treasure-gold transition-colors"
-          title="Statistics"
-        >
-          <HiChartBar size={24} />
-        </button>
+        <div className="flex-1 flex justify-end">
+          <button
+            onClick={onShowStats}
+            className="text-text-muted hover:text-treasure-gold transition-colors"
+            title="Statistics"
+          >
+            <HiChartBar size={24} />
+          </button>
+        </div>
       </div>
     </header>
   );
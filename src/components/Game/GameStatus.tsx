@@ -1,27 +1,116 @@
-import type { Clue } from '../../types';
+import { useState } from 'react';
+import type { Clue, Difficulty, GameAnalysis } from '../../types';
+import { MAX_HINT_LEVEL } from '../../dungeon';
+import { copyToClipboard, getChallengeUrl } from '../../utils/sharing';
+import { Hindsight } from '../Hindsight';
+import { DifficultyPicker } from './DifficultyPicker';
 
 interface GameStatusProps {
   hasWon: boolean;
   hasLost: boolean;
+  declared: boolean; // the game ended on a declaration
   isPractice: boolean;
+  isArchive: boolean;
+  practiceSeedCode: string | null;
+  difficulty: Difficulty;
   moveCount: number;
   visitedCount: number;
   par: number;
   currentClue: Clue | null;
+  clues: Map<number, Clue>;
+  analysis: GameAnalysis | null; // set once the game is over
+  smellsSmoke: boolean;
+  showDeduction: boolean;
+  candidateCount: number;
+  onToggleDeduction: () => void;
+  hintTexts: string[];
+  hintsUsed: number;
+  onRequestHint: () => void;
+  isDeclaring: boolean;
+  onToggleDeclaring: () => void;
+  allowsUndo: boolean;
+  canUndo: boolean;
+  canRestart: boolean;
+  onUndo: () => void;
+  onRestart: () => void;
   onShowShareModal: () => void;
-  onStartPractice: () => void;
+  onStartPractice: (difficulty: Difficulty) => void;
   onTryAnother: () => void;
   onBackToDaily: () => void;
 }
 
+// Copies a link that opens this practice dungeon for someone else
+function ChallengeLinkButton({ seedCode }: { seedCode: string }) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    const success = await copyToClipboard(getChallengeUrl(seedCode, window.location.origin));
+    if (success) {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleCopy}
+      className="text-xs text-text-dim hover:text-treasure-gold transition-colors"
+      title={`Seed ${seedCode}`}
+    >
+      🔗 {copied ? 'Link copied!' : `Copy challenge link · ${seedCode}`}
+    </button>
+  );
+}
+
+interface UndoControlsProps {
+  canUndo: boolean;
+  canRestart: boolean;
+  onUndo: () => void;
+  onRestart: () => void;
+}
+
+function UndoControls({ canUndo, canRestart, onUndo, onRestart }: UndoControlsProps) {
+  const className = 'text-xs text-text-dim hover:text-treasure-gold transition-colors disabled:opacity-40 disabled:hover:text-text-dim';
+  return (
+    <div className="flex items-center justify-center gap-4">
+      <button onClick={onUndo} disabled={!canUndo} className={className} title="Undo last move (U)">
+        ↶ Undo
+      </button>
+      <button onClick={onRestart} disabled={!canRestart} className={className} title="Restart this dungeon (R)">
+        ⟲ Restart
+      </button>
+    </div>
+  );
+}
+
 export function GameStatus({
   hasWon,
   hasLost,
+  declared,
   isPractice,
+  isArchive,
+  practiceSeedCode,
+  difficulty,
   moveCount,
   visitedCount,
   par,
   currentClue,
+  clues,
+  analysis,
+  smellsSmoke,
+  showDeduction,
+  candidateCount,
+  onToggleDeduction,
+  hintTexts,
+  hintsUsed,
+  onRequestHint,
+  isDeclaring,
+  onToggleDeclaring,
+  allowsUndo,
+  canUndo,
+  canRestart,
+  onUndo,
+  onRestart,
   onShowShareModal,
   onStartPractice,
   onTryAnother,
@@ -30,15 +119,36 @@ export function GameStatus({
   if (hasLost) {
     return (
       <div>
-        <p className="text-2xl font-bold text-danger mb-2 win-text-reveal">🐉 The Dragon Got You!</p>
+        <p className="text-2xl font-bold text-danger mb-2 win-text-reveal">
+          {declared ? '🔮 Wrong Chamber! The gem lay elsewhere' : '🐉 The Dragon Got You!'}
+        </p>
+        {analysis && (
+          <div className="max-w-sm mx-auto win-button-reveal">
+            <Hindsight analysis={analysis} clues={clues} moves={moveCount} par={par} hintsUsed={hintsUsed} declared={declared} hasLost />
+          </div>
+        )}
         {isPractice ? (
-          <div className="flex gap-3 win-button-reveal">
-            <button
-              onClick={onTryAnother}
-              className="bg-danger text-dungeon-bg px-6 py-2 rounded font-bold hover:bg-danger-light transition-colors"
-            >
-              Try Another
-            </button>
+          <div className="flex flex-col items-center gap-3 win-button-reveal">
+            <div className="flex gap-3">
+              <button
+                onClick={onTryAnother}
+                className="bg-danger text-dungeon-bg px-6 py-2 rounded font-bold hover:bg-danger-light transition-colors"
+              >
+                Try Another
+              </button>
+              <button
+                onClick={onBackToDaily}
+                className="border border-dungeon-wall text-text-secondary px-6 py-2 rounded font-bold hover:border-treasure-gold hover:text-treasure-gold transition-colors"
+              >
+                Back to Daily
+              </button>
+            </div>
+            <DifficultyPicker current={difficulty} onSelect={onStartPractice} />
+            <UndoControls canUndo={canUndo} canRestart={canRestart} onUndo={onUndo} onRestart={onRestart} />
+            {practiceSeedCode && <ChallengeLinkButton seedCode={practiceSeedCode} />}
+          </div>
+        ) : isArchive ? (
+          <div className="flex flex-col items-center gap-3 win-button-reveal">
             <button
               onClick={onBackToDaily}
               className="border border-dungeon-wall text-text-secondary px-6 py-2 rounded font-bold hover:border-treasure-gold hover:text-treasure-gold transition-colors"
@@ -48,12 +158,8 @@ export function GameStatus({
           </div>
         ) : (
           <div className="flex flex-col items-center gap-1.5 win-button-reveal">
-            <button
-              onClick={onStartPractice}
-              className="bg-treasure-gold text-dungeon-bg px-6 py-2 rounded font-bold hover:bg-treasure-gold-light transition-colors"
-            >
-              Practice Mode
-            </button>
+            <p className="text-sm font-bold text-treasure-gold">Practice Mode</p>
+            <DifficultyPicker onSelect={onStartPractice} />
           </div>
         )}
       </div>
@@ -63,21 +169,51 @@ export function GameStatus({
   if (hasWon) {
     return (
       <div>
-        <p className="text-2xl font-bold text-treasure-gold mb-2 win-text-reveal">💎 Gem Found!</p>
+        <p className="text-2xl font-bold text-treasure-gold mb-2 win-text-reveal">
+          {declared ? '🔮 Gem Declared!' : '💎 Gem Found!'}
+        </p>
         {isPractice ? (
-          <div className="flex gap-3 win-button-reveal">
-            <button
-              onClick={onTryAnother}
-              className="bg-treasure-gold text-dungeon-bg px-6 py-2 rounded font-bold hover:bg-treasure-gold-light transition-colors"
-            >
-              Try Another
-            </button>
-            <button
-              onClick={onBackToDaily}
-              className="border border-dungeon-wall text-text-secondary px-6 py-2 rounded font-bold hover:border-treasure-gold hover:text-treasure-gold transition-colors"
-            >
-              Back to Daily
-            </button>
+          <div className="flex flex-col items-center gap-3 win-button-reveal">
+            <div className="flex gap-3">
+              <button
+                onClick={onTryAnother}
+                className="bg-treasure-gold text-dungeon-bg px-6 py-2 rounded font-bold hover:bg-treasure-gold-light transition-colors"
+              >
+                Try Another
+              </button>
+              <button
+                onClick={onShowShareModal}
+                className="border border-treasure-gold text-treasure-gold px-6 py-2 rounded font-bold hover:bg-treasure-gold hover:text-dungeon-bg transition-colors"
+              >
+                Share
+              </button>
+              <button
+                onClick={onBackToDaily}
+                className="border border-dungeon-wall text-text-secondary px-6 py-2 rounded font-bold hover:border-treasure-gold hover:text-treasure-gold transition-colors"
+              >
+                Back to Daily
+              </button>
+            </div>
+            <DifficultyPicker current={difficulty} onSelect={onStartPractice} />
+            <UndoControls canUndo={canUndo} canRestart={canRestart} onUndo={onUndo} onRestart={onRestart} />
+            {practiceSeedCode && <ChallengeLinkButton seedCode={practiceSeedCode} />}
+          </div>
+        ) : isArchive ? (
+          <div className="flex flex-col items-center gap-3 win-button-reveal">
+            <div className="flex gap-3">
+              <button
+                onClick={onShowShareModal}
+                className="bg-treasure-gold text-dungeon-bg px-6 py-2 rounded font-bold hover:bg-treasure-gold-light transition-colors"
+              >
+                Share Result
+              </button>
+              <button
+                onClick={onBackToDaily}
+                className="border border-dungeon-wall text-text-secondary px-6 py-2 rounded font-bold hover:border-treasure-gold hover:text-treasure-gold transition-colors"
+              >
+                Back to Daily
+              </button>
+            </div>
           </div>
         ) : (
           <div className="flex flex-col items-center gap-1.5 win-button-reveal">
@@ -87,12 +223,8 @@ export function GameStatus({
             >
               Share Result
             </button>
-            <button
-              onClick={onStartPractice}
-              className="text-text-dim text-base hover:text-treasure-gold transition-colors"
-            >
-              Practice Mode
-            </button>
+            <p className="text-text-dim text-base">Practice Mode</p>
+            <DifficultyPicker onSelect={onStartPractice} />
           </div>
         )}
       </div>
@@ -126,7 +258,64 @@ export function GameStatus({
         </p>
       )}
 
-      <p className="text-sm text-text-secondary">Collect clues to find the gem</p>
+      {smellsSmoke && (
+        <p className="text-base text-danger font-bold mb-2 clue-reveal">
+          💨 You smell smoke… the dragon lurks nearby
+        </p>
+      )}
+
+      <p className="text-sm text-text-secondary">
+        {isDeclaring
+          ? 'Tap the room or unexplored square you believe holds the gem — a wrong guess ends the game'
+          : showDeduction
+          ? `${candidateCount} room${candidateCount !== 1 ? 's' : ''} in sight could hold the gem`
+          : 'Collect clues to find the gem'}
+      </p>
+
+      {hintTexts.length > 0 && (
+        <ul className="mt-2 space-y-1 text-sm text-text-warm">
+          {hintTexts.map((text, i) => (
+            <li key={i}>💡 {text}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-2 flex items-center justify-center gap-4">
+        <button
+          onClick={onToggleDeduction}
+          className="text-xs text-text-dim hover:text-treasure-gold transition-colors"
+          title={isPractice ? undefined : 'Using the deduction overlay marks your result as assisted'}
+        >
+          🔎 Deduction: {showDeduction ? 'On' : 'Off'}
+        </button>
+        <button
+          onClick={onRequestHint}
+          disabled={hintsUsed >= MAX_HINT_LEVEL}
+          className="text-xs text-text-dim hover:text-treasure-gold transition-colors disabled:opacity-40 disabled:hover:text-text-dim"
+          title="Each hint costs one move in your rating"
+        >
+          💡 Hint ({hintsUsed}/{MAX_HINT_LEVEL})
+        </button>
+        <button
+          onClick={onToggleDeclaring}
+          className={`text-xs transition-colors hover:text-treasure-gold ${isDeclaring ? 'text-treasure-gold' : 'text-text-dim'}`}
+          title="Name the gem's room from anywhere on the map; right is worth a move, wrong loses"
+        >
+          🔮 {isDeclaring ? 'Cancel' : 'Declare'}
+        </button>
+      </div>
+
+      {allowsUndo && (
+        <div className="mt-2">
+          <UndoControls canUndo={canUndo} canRestart={canRestart} onUndo={onUndo} onRestart={onRestart} />
+        </div>
+      )}
+
+      {practiceSeedCode && (
+        <div className="mt-2">
+          <ChallengeLinkButton seedCode={practiceSeedCode} />
+        </div>
+      )}
     </>
   );
 }
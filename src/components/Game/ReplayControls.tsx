@@ -0,0 +1,89 @@
+import type { Clue } from '../../types';
+
+interface ReplayControlsProps {
+  step: number;
+  stepCount: number;
+  move: number;
+  clue: Clue | null; // the clue collected on this step, if any
+  isPlaying: boolean;
+  onPlay: () => void;
+  onPause: () => void;
+  onStepBy: (delta: number) => void;
+  onSeek: (step: number) => void;
+  showShortestRoute: boolean;
+  shortestRouteMoves: number;
+  onToggleShortestRoute: () => void;
+  onClose: () => void;
+}
+
+// Playback bar shown under the map while a finished game is replayed
+export function ReplayControls({
+  step,
+  stepCount,
+  move,
+  clue,
+  isPlaying,
+  onPlay,
+  onPause,
+  onStepBy,
+  onSeek,
+  showShortestRoute,
+  shortestRouteMoves,
+  onToggleShortestRoute,
+  onClose,
+}: ReplayControlsProps) {
+  const lastStep = stepCount - 1;
+  const buttonClass = 'w-10 h-10 rounded border border-dungeon-wall text-text-secondary hover:border-treasure-gold hover:text-treasure-gold transition-colors disabled:opacity-40 disabled:hover:border-dungeon-wall disabled:hover:text-text-secondary';
+
+  return (
+    <div className="flex flex-col items-center gap-3 w-full max-w-xs">
+      <p className="text-xs text-text-secondary">
+        REPLAY · {step === 0 ? 'Entrance' : `Move ${move}`} of {lastStep}
+      </p>
+
+      <p className="text-base text-treasure-gold font-bold min-h-6">
+        {clue && <span key={step} className="clue-reveal inline-block">{clue.icon} {clue.text}</span>}
+      </p>
+
+      <div className="flex items-center gap-3">
+        <button onClick={() => onStepBy(-1)} disabled={step === 0} className={buttonClass} title="Step back" aria-label="Step back">
+          ◀
+        </button>
+        <button
+          onClick={isPlaying ? onPause : onPlay}
+          className="w-12 h-12 rounded bg-treasure-gold text-dungeon-bg font-bold hover:bg-treasure-gold-light transition-colors"
+          title={isPlaying ? 'Pause' : 'Play'}
+          aria-label={isPlaying ? 'Pause' : 'Play'}
+        >
+          {isPlaying ? '❚❚' : '▶'}
+        </button>
+        <button onClick={() => onStepBy(1)} disabled={step === lastStep} className={buttonClass} title="Step forward" aria-label="Step forward">
+          ▶
+        </button>
+      </div>
+
+      <input
+        type="range"
+        min={0}
+        max={lastStep}
+        value={step}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        className="w-full accent-treasure-gold"
+        aria-label="Replay position"
+      />
+
+      <div className="flex items-center justify-center gap-4">
+        <button
+          onClick={onToggleShortestRoute}
+          className={`text-xs transition-colors hover:text-treasure-gold ${showShortestRoute ? 'text-treasure-gold' : 'text-text-dim'}`}
+          title="Compare with a shortest walk to the gem"
+        >
+          🧭 Shortest route ({shortestRouteMoves} moves): {showShortestRoute ? 'On' : 'Off'}
+        </button>
+        <button onClick={onClose} className="text-xs text-text-dim hover:text-treasure-gold transition-colors">
+          ✕ Close replay
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import type { Clue, GameAnalysis } from '../../types';
+import { DECLARE_BONUS } from '../../utils/sharing';
+
+interface HindsightProps {
+  analysis: GameAnalysis;
+  clues: Map<number, Clue>;
+  moves: number;
+  par: number;
+  hintsUsed: number;
+  declared: boolean;
+  hasLost: boolean;
+}
+
+const plural = (n: number, word: string) => `${n} ${word}${n !== 1 ? 's' : ''}`;
+
+// "When could you have known?" — what the rating letter is made of, where the
+// gem became certain, and which clues were spent for nothing. A lost game has
+// no rating, so it only learns where the gem was certain and how far away.
+export function Hindsight({ analysis, clues, moves, par, hintsUsed, declared, hasLost }: HindsightProps) {
+  const { knownAtMove, movesAfterKnown, shortestAfterKnown, wastedMoves, redundantClueRoomIds } = analysis;
+  const when = knownAtMove === 0 ? 'from the entrance' : `after move ${knownAtMove}`;
+
+  let knownText: string;
+  if (hasLost) {
+    if (knownAtMove === null) {
+      knownText = 'The clues you collected had not pinned the gem down yet.';
+    } else if (declared) {
+      knownText = `The gem was certain ${when}, but you named a different room.`;
+    } else {
+      knownText = `The gem was certain ${when}, ${plural(shortestAfterKnown, 'move')} from where you stood.`;
+    }
+  } else if (knownAtMove === null) {
+    knownText = 'You declared before the clues could pin the gem down.';
+  } else if (knownAtMove === moves && !declared) {
+    knownText = 'You reached the gem before the clues could pin it down.';
+  } else {
+    knownText = wastedMoves > 0
+      ? `The gem was certain ${when}; you took ${plural(movesAfterKnown, 'more move')} where ${shortestAfterKnown} would do.`
+      : `The gem was certain ${when}, and you ${declared ? 'called it' : 'went straight there'}.`;
+  }
+
+  return (
+    <div className="bg-dungeon-bg rounded p-3 mb-4 text-left text-sm space-y-1">
+      <p className="text-xs text-text-secondary uppercase text-center mb-1">Hindsight</p>
+      {!hasLost && (
+        <p className="text-text-secondary">
+          {plural(moves, 'move')}
+          {hintsUsed > 0 && <> + {plural(hintsUsed, 'hint')}</>}
+          {declared && <> − {DECLARE_BONUS} for declaring</>}
+          {' '}against par {par}.
+        </p>
+      )}
+      <p className="text-text-primary">{knownText}</p>
+      {redundantClueRoomIds.length > 0 && (
+        <p className="text-text-warm">
+          {plural(redundantClueRoomIds.length, 'clue')} told you nothing new:{' '}
+          {redundantClueRoomIds.map((id) => clues.get(id)?.icon).join(' ')}
+        </p>
+      )}
+    </div>
+  );
+}
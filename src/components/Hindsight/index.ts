@@ -0,0 +1 @@
+export { Hindsight } from './Hindsight';
@@ -49,6 +49,10 @@ export function HowToPlay({ isOpen, onClose }: HowToPlayProps) {
                 <li>🚪 <span className="text-text-primary">Path distance</span> — steps to the gem</li>
                 <li>🔗 <span className="text-text-primary">Exits</span> — how many exits the gem chamber has</li>
                 <li>📏 <span className="text-text-primary">Grid distance</span> — grid squares away</li>
+                <li>🚫 <span className="text-text-primary">Not</span> — a direction the gem is not in</li>
+                <li>🔢 <span className="text-text-primary">Parity</span> — whether the gem's row or column is even, counting from the entrance</li>
+                <li>🧭 <span className="text-text-primary">Quadrant</span> — which quarter holds the gem, looking out from the clue's room</li>
+                <li>🧱 <span className="text-text-primary">Dead end</span> — whether the gem chamber has a single exit</li>
               </ul>
             </div>
           </div>
@@ -64,12 +68,25 @@ export function HowToPlay({ isOpen, onClose }: HowToPlayProps) {
             </div>
           </div>
 
+          <div className="flex items-start gap-3">
+            <span className="text-2xl">✏️</span>
+            <div>
+              <p className="font-bold">Take Notes</p>
+              <p className="text-sm text-text-secondary">
+                Right-click or long-press a room to mark it ruled out ✕, a suspected gem 💎? or a
+                suspected dragon 🐉?. Marks are free — they never cost a move.
+              </p>
+            </div>
+          </div>
+
           <div className="flex items-start gap-3">
             <span className="text-2xl">💎</span>
             <div>
               <p className="font-bold">Find the Gem</p>
               <p className="text-sm text-text-secondary">
                 Navigate to the chamber you've deduced. Fewer moves = better rating!
+                Sure of it already? Press 🔮 Declare and tap its room, or the unexplored square where
+                it must lie — a right call is worth a move, a wrong one ends the game.
               </p>
             </div>
           </div>
@@ -79,7 +96,20 @@ export function HowToPlay({ isOpen, onClose }: HowToPlayProps) {
             <div>
               <p className="font-bold text-danger">Beware the Dragon</p>
               <p className="text-sm text-text-secondary">
-                One room hides a dragon. Step on it and your quest ends! Use clues to avoid it.
+                One room hides a dragon. Step on it and your quest ends! Rooms next to its lair smell of smoke 💨, so a careful explorer can always avoid it.
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-start gap-3">
+            <span className="text-2xl">⌨️</span>
+            <div>
+              <p className="font-bold">Keyboard</p>
+              <p className="text-sm text-text-secondary">
+                Arrow keys walk through straight tunnels; Q E Z C (or numpad 7 9 1 3) take the
+                diagonal ones, with W A D X and numpad 8 4 6 2 as straight moves too. Tab steps through
+                the rooms you can reach and Enter goes there. In practice, U undoes and R restarts, even after the
+                dragon gets you; in the archive they work until the game ends.
               </p>
             </div>
           </div>
@@ -89,7 +119,7 @@ export function HowToPlay({ isOpen, onClose }: HowToPlayProps) {
             <div>
               <p className="font-bold">Daily Puzzle</p>
               <p className="text-sm text-text-secondary">
-                Same dungeon for everyone each day. Come back tomorrow for a new challenge!
+                Same dungeon for everyone each day. Come back tomorrow for a new challenge, or replay past days from the archive 🗄️.
               </p>
             </div>
           </div>
@@ -1,10 +1,11 @@
 import { useState, useEffect, useRef } from 'react';
-import type { Dungeon } from '../../types';
-import { generateShareText, copyToClipboard, getGunudRating } from '../../utils/sharing';
+import type { Clue, Dungeon, GameAnalysis } from '../../types';
+import { generateShareText, copyToClipboard, getGunudRating, DECLARE_BONUS } from '../../utils/sharing';
 import { GRADE_COLORS } from '../gradeColors';
 import { useEscapeKey } from '../../hooks/useEscapeKey';
 import { GRADE_SHADOWS, CONFETTI_CONFIG, getContextMessage } from './shareModalConstants';
 import { ConfettiOverlay } from './ConfettiOverlay';
+import { Hindsight } from '../Hindsight';
 
 interface ShareModalProps {
   isOpen: boolean;
@@ -15,6 +16,12 @@ interface ShareModalProps {
   visitedRoomIds: Set<number>;
   dungeon: Dungeon;
   clueCount: number;
+  assisted: boolean;
+  hintsUsed: number;
+  seedCode?: string | null; // set for practice dungeons
+  declared: boolean;
+  clues: Map<number, Clue>;
+  analysis: GameAnalysis | null;
 }
 
 export function ShareModal({
@@ -26,10 +33,16 @@ export function ShareModal({
   visitedRoomIds,
   dungeon,
   clueCount,
+  assisted,
+  hintsUsed,
+  seedCode,
+  declared,
+  clues,
+  analysis,
 }: ShareModalProps) {
   const [copied, setCopied] = useState(false);
 
-  const rating = getGunudRating(moves, par);
+  const rating = getGunudRating(moves, par, hintsUsed, declared);
   const confettiConfig = CONFETTI_CONFIG[rating.grade];
 
   // Manage confetti phase — reset to 'active' each time modal opens
@@ -62,7 +75,7 @@ export function ShareModal({
   if (!isOpen) return null;
 
   const { text, emojiGrid } = generateShareText(
-    puzzleNumber, moves, par, visitedRoomIds, dungeon, clueCount
+    puzzleNumber, moves, par, visitedRoomIds, dungeon, clueCount, assisted, hintsUsed, seedCode ?? undefined, declared
   );
 
   const handleShare = async () => {
@@ -75,7 +88,7 @@ export function ShareModal({
 
   const gradeColor = GRADE_COLORS[rating.grade];
   const gradeShadow = GRADE_SHADOWS[rating.grade] || 'none';
-  const contextMessage = getContextMessage(rating.grade, moves, par);
+  const contextMessage = getContextMessage(rating.grade, moves + hintsUsed - (declared ? DECLARE_BONUS : 0), par);
   const cluesHighlight = clueCount <= moves;
 
   return (
@@ -132,6 +145,10 @@ export function ShareModal({
           </p>
         )}
 
+        {analysis && (
+          <Hindsight analysis={analysis} clues={clues} moves={moves} par={par} hintsUsed={hintsUsed} declared={declared} hasLost={false} />
+        )}
+
         {/* Emoji Grid */}
         <div className="bg-dungeon-bg rounded p-4 mb-4 mt-4 font-mono text-lg leading-relaxed">
           <div className="whitespace-pre">{emojiGrid}</div>
@@ -0,0 +1,131 @@
+import { useMemo, useState, type CSSProperties } from 'react';
+import type { DailyRecord } from '../../types';
+import { GRADE_COLORS } from '../gradeColors';
+import { RoutePreview } from './RoutePreview';
+
+interface CalendarProps {
+  history: DailyRecord[];
+  today: string;
+}
+
+const WEEKDAYS = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+
+function toDateString(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month, day)).toISOString().split('T')[0];
+}
+
+// Day cells for a month, padded so weeks start on Monday (null = padding)
+function getMonthDays(year: number, month: number): (string | null)[] {
+  const firstWeekday = (new Date(Date.UTC(year, month, 1)).getUTCDay() + 6) % 7;
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return [
+    ...Array<null>(firstWeekday).fill(null),
+    ...Array.from({ length: daysInMonth }, (_, i) => toDateString(year, month, i + 1)),
+  ];
+}
+
+function describeRecord(record: DailyRecord): string {
+  if (record.result === 'loss' && record.declared) return `Declared the wrong room after ${record.moves} moves`;
+  if (record.result === 'loss') return `Killed by the dragon after ${record.moves} moves`;
+  if (record.result === 'abandoned') return `Abandoned after ${record.moves} moves`;
+  return `${record.moves} moves (par ${record.par}) · Grade ${record.grade}${record.declared ? ' · 🔮 declared' : ''}`;
+}
+
+export function Calendar({ history, today }: CalendarProps) {
+  const [year, month] = today.split('-').map(Number);
+  const [shown, setShown] = useState({ year, month: month - 1 });
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+
+  const recordsByDate = useMemo(() => new Map(history.map((r) => [r.date, r])), [history]);
+  // Days before the first recorded daily are unknown rather than missed
+  const firstDate = history[0]?.date ?? today;
+  const days = getMonthDays(shown.year, shown.month);
+  const monthLabel = new Date(Date.UTC(shown.year, shown.month, 1))
+    .toLocaleDateString(undefined, { month: 'long', year: 'numeric', timeZone: 'UTC' });
+  const selected = selectedDate ? recordsByDate.get(selectedDate) ?? null : null;
+
+  const changeMonth = (delta: number) => {
+    const date = new Date(Date.UTC(shown.year, shown.month + delta, 1));
+    setShown({ year: date.getUTCFullYear(), month: date.getUTCMonth() });
+    setSelectedDate(null);
+  };
+  const isLatestMonth = shown.year === year && shown.month === month - 1;
+  const isFirstMonth = toDateString(shown.year, shown.month, 1) <= firstDate.slice(0, 8) + '01';
+
+  return (
+    <div className="bg-dungeon-bg rounded p-4 mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <button
+          onClick={() => changeMonth(-1)}
+          disabled={isFirstMonth}
+          className="px-2 text-text-secondary hover:text-treasure-gold disabled:opacity-30 disabled:hover:text-text-secondary"
+          aria-label="Previous month"
+        >
+          ‹
+        </button>
+        <p className="text-sm text-text-primary">{monthLabel}</p>
+        <button
+          onClick={() => changeMonth(1)}
+          disabled={isLatestMonth}
+          className="px-2 text-text-secondary hover:text-treasure-gold disabled:opacity-30 disabled:hover:text-text-secondary"
+          aria-label="Next month"
+        >
+          ›
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center text-xs">
+        {WEEKDAYS.map((day, i) => (
+          <span key={i} className="text-text-dim">{day}</span>
+        ))}
+        {days.map((date, i) => {
+          if (!date) return <span key={`pad-${i}`} />;
+          const record = recordsByDate.get(date);
+          const isMissed = !record && date >= firstDate && date < today;
+          const dayNumber = Number(date.slice(8));
+
+          let className = 'aspect-square rounded flex items-center justify-center font-mono';
+          let style: CSSProperties | undefined;
+          let label: string = String(dayNumber);
+          if (record?.result === 'win') {
+            className += ' text-dungeon-bg font-bold';
+            style = { backgroundColor: GRADE_COLORS[record.grade!] };
+          } else if (record?.result === 'loss') {
+            className += ' bg-danger/30 text-danger';
+            label = record.declared ? '✗' : '🐉';
+          } else if (record?.result === 'abandoned') {
+            className += ' border border-danger/50 text-text-secondary';
+          } else if (isMissed) {
+            className += ' border border-dashed border-dungeon-wall text-text-faint';
+          } else {
+            className += ' text-text-faint';
+          }
+          if (date === selectedDate) className += ' ring-2 ring-treasure-gold';
+
+          return (
+            <button
+              key={date}
+              onClick={() => setSelectedDate(record ? date : null)}
+              disabled={!record}
+              className={className}
+              style={style}
+              title={record ? `#${record.puzzleNumber}: ${describeRecord(record)}` : isMissed ? 'Missed' : undefined}
+            >
+              {label}
+            </button>
+          );
+        })}
+      </div>
+
+      {selected && (
+        <div className="mt-3 text-center text-sm">
+          <p className="text-text-primary">
+            #{selected.puzzleNumber} · {selected.date}
+          </p>
+          <p className="text-text-secondary mb-2">{describeRecord(selected)}</p>
+          <RoutePreview key={selected.date} date={selected.date} path={selected.path} />
+        </div>
+      )}
+    </div>
+  );
+}
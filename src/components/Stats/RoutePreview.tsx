@@ -0,0 +1,69 @@
+import { useEffect, useMemo, useState } from 'react';
+import { generatePuzzle } from '../../dungeon';
+
+interface RoutePreviewProps {
+  date: string;
+  path: number[];
+}
+
+const CELL = 20;
+const ROOM = 14;
+const STEP_MS = 350;
+
+// Miniature of a past daily's mine that replays the route taken through it
+export function RoutePreview({ date, path }: RoutePreviewProps) {
+  const { dungeon } = useMemo(() => generatePuzzle(date), [date]);
+  const [step, setStep] = useState(0);
+  const isPlaying = step < path.length - 1;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setTimeout(() => setStep((s) => s + 1), STEP_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, step]);
+
+  const xs = dungeon.rooms.map((r) => r.x);
+  const ys = dungeon.rooms.map((r) => r.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const width = (Math.max(...xs) - minX + 1) * CELL;
+  const height = (Math.max(...ys) - minY + 1) * CELL;
+  const roomById = new Map(dungeon.rooms.map((r) => [r.id, r]));
+  const centre = (id: number) => {
+    const room = roomById.get(id)!;
+    return { x: (room.x - minX + 0.5) * CELL, y: (room.y - minY + 0.5) * CELL };
+  };
+  const walked = path.slice(0, step + 1).filter((id) => roomById.has(id));
+
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <svg viewBox={`0 0 ${width} ${height}`} className="max-w-full" style={{ width: Math.min(width * 1.5, 280) }}>
+        {dungeon.rooms.map((room) => {
+          const { x, y } = centre(room.id);
+          const fill = room.id === dungeon.treasureId ? 'var(--color-treasure-gold)'
+            : room.id === dungeon.dragonId ? 'var(--color-danger)' : '#2d2d44';
+          return (
+            <rect key={room.id} x={x - ROOM / 2} y={y - ROOM / 2} width={ROOM} height={ROOM}
+              rx={2} fill={fill} opacity={walked.includes(room.id) ? 0.9 : 0.4} />
+          );
+        })}
+        {walked.length > 1 && (
+          <polyline
+            points={walked.map((id) => { const { x, y } = centre(id); return `${x},${y}`; }).join(' ')}
+            fill="none" stroke="#ffd700" strokeWidth={2} strokeLinejoin="round" opacity={0.8}
+          />
+        )}
+        {walked.length > 0 && (
+          <circle cx={centre(walked.at(-1)!).x} cy={centre(walked.at(-1)!).y} r={4} fill="#ffd700" />
+        )}
+      </svg>
+      <button
+        onClick={() => setStep(0)}
+        disabled={isPlaying}
+        className="text-xs text-text-dim hover:text-treasure-gold transition-colors disabled:opacity-40"
+      >
+        ↻ Replay
+      </button>
+    </div>
+  );
+}
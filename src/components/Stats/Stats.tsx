@@ -1,18 +1,21 @@
 import type { Stats as StatsType } from '../../types';
 import { GRADE_COLORS } from '../gradeColors';
+import { DIFFICULTIES, DIFFICULTY_PRESETS, getTodayDateString } from '../../dungeon';
 import { useEscapeKey } from '../../hooks/useEscapeKey';
 import { StatBox } from './StatBox';
+import { Calendar } from './Calendar';
 
 interface StatsProps {
   isOpen: boolean;
   onClose: () => void;
   stats: StatsType;
   averageMoves: number;
+  winPercentage: number;
 }
 
 const GRADES = ['S', 'A', 'B', 'C', 'D'] as const;
 
-export function Stats({ isOpen, onClose, stats, averageMoves }: StatsProps) {
+export function Stats({ isOpen, onClose, stats, averageMoves, winPercentage }: StatsProps) {
   useEscapeKey(isOpen, onClose);
 
   if (!isOpen) return null;
@@ -20,20 +23,37 @@ export function Stats({ isOpen, onClose, stats, averageMoves }: StatsProps) {
   const ratingCounts = stats.ratingCounts || { S: 0, A: 0, B: 0, C: 0, D: 0 };
   const maxCount = Math.max(...GRADES.map((g) => ratingCounts[g] || 0), 1);
   const hasAnyRatings = GRADES.some((g) => (ratingCounts[g] || 0) > 0);
+  const wrongDeclarations = stats.history.filter((r) => r.result === 'loss' && r.declared).length;
 
   return (
     <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" onClick={onClose}>
-      <div className="bg-dungeon-floor rounded-lg p-6 max-w-sm w-full pixel-border" onClick={e => e.stopPropagation()}>
+      <div className="bg-dungeon-floor rounded-lg p-6 max-w-sm w-full pixel-border max-h-[calc(100vh-2rem)] overflow-y-auto" onClick={e => e.stopPropagation()}>
         <h2 className="text-2xl font-bold text-treasure-gold mb-6 text-center">Statistics</h2>
 
         <div className="grid grid-cols-2 gap-4 mb-6">
           <StatBox label="Played" value={stats.gamesPlayed} />
+          <StatBox label="Win %" value={winPercentage} />
           <StatBox label="Won" value={stats.gamesWon} />
+          <StatBox label="Lost" value={stats.gamesLost} />
           <StatBox label="Current Streak" value={stats.currentStreak} emoji="🔥" />
           <StatBox label="Max Streak" value={stats.maxStreak} emoji="🏆" />
         </div>
 
-        {stats.moveHistory.length > 0 && (
+        {stats.gamesLost > 0 && (
+          <p className="text-center text-sm text-text-secondary mb-6">
+            <span className="text-danger">🐉 Deaths by dragon: {stats.gamesLost - wrongDeclarations}</span>
+            {wrongDeclarations > 0 && <> · 🔮 Wrong declarations: {wrongDeclarations}</>}
+            {stats.gamesAbandoned > 0 && <> · Abandoned: {stats.gamesAbandoned}</>}
+          </p>
+        )}
+
+        {stats.archive.length > 0 && (
+          <p className="text-center text-sm text-text-secondary mb-6">
+            🗄️ Archive: {stats.archive.filter((r) => r.result === 'win').length} won of {stats.archive.length} played
+          </p>
+        )}
+
+        {averageMoves > 0 && (
           <div className="bg-dungeon-bg rounded p-4 mb-6">
             <p className="text-center text-text-secondary text-sm mb-1">Average Moves</p>
             <p className="text-center text-2xl font-bold text-treasure-gold">
@@ -80,17 +100,70 @@ export function Stats({ isOpen, onClose, stats, averageMoves }: StatsProps) {
           )}
         </div>
 
-        {stats.moveHistory.length > 0 && (
+        {/* Per-difficulty results (daily counts as Normal) */}
+        <p className="text-text-secondary text-sm mb-2 text-center">By Difficulty</p>
+        <div className="bg-dungeon-bg rounded p-4 mb-6 space-y-1">
+          {DIFFICULTIES.map((tier) => {
+            const tierStats = stats.tierStats?.[tier];
+            const won = tierStats?.gamesWon ?? 0;
+            const lost = tierStats?.gamesLost ?? 0;
+            return (
+              <div key={tier} className="flex items-center gap-2 text-sm">
+                <span className="w-16 text-text-primary">{DIFFICULTY_PRESETS[tier].label}</span>
+                <span className="w-12 text-text-secondary">{won} won</span>
+                {lost > 0 && <span className="text-danger" title="Losses">🐉{lost}</span>}
+                <span className="flex-1 flex gap-2 justify-end font-mono">
+                  {GRADES.filter((g) => (tierStats?.ratingCounts[g] ?? 0) > 0).map((g) => (
+                    <span key={g} style={{ color: GRADE_COLORS[g] }}>
+                      {g}{tierStats!.ratingCounts[g]}
+                    </span>
+                  ))}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Daily results by the puzzle's difficulty score */}
+        {stats.pickaxeStats.some((p) => p.gamesPlayed > 0) && (
+          <>
+            <p className="text-text-secondary text-sm mb-2 text-center">By Pickaxes</p>
+            <div className="bg-dungeon-bg rounded p-4 mb-6 space-y-1">
+              {stats.pickaxeStats.filter((p) => p.gamesPlayed > 0).map((p) => (
+                <div key={p.pickaxes} className="flex items-center gap-2 text-sm">
+                  <span className="w-20 text-xs" title={`Difficulty ${p.pickaxes}`}>{'⛏️'.repeat(p.pickaxes)}</span>
+                  <span className="w-16 text-text-secondary">{p.gamesWon}/{p.gamesPlayed} won</span>
+                  <span className="flex-1 text-right text-text-secondary">
+                    {p.gamesWon > 0 ? `avg ${p.averageMoves.toFixed(1)} moves` : '–'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        {stats.history.length > 0 && (
+          <>
+            <p className="text-text-secondary text-sm mb-2 text-center">Calendar</p>
+            <Calendar history={stats.history} today={getTodayDateString()} />
+          </>
+        )}
+
+        {stats.history.length > 0 && (
           <div className="mb-6">
             <p className="text-text-secondary text-sm mb-2 text-center">Recent Games</p>
             <div className="flex gap-1 justify-center flex-wrap">
-              {stats.moveHistory.slice(-10).map((moves, i) => (
+              {stats.history.slice(-10).map((record) => (
                 <div
-                  key={i}
+                  key={record.date}
                   className="w-8 h-8 bg-dungeon-bg rounded flex items-center justify-center text-sm font-mono"
-                  title={`${moves} moves`}
+                  style={record.grade ? { color: GRADE_COLORS[record.grade] } : undefined}
+                  title={`#${record.puzzleNumber}: ${
+                    record.result === 'win' ? `${record.moves} moves (par ${record.par})`
+                      : record.result === 'loss' ? (record.declared ? 'declared the wrong room' : 'killed by the dragon') : 'abandoned'
+                  }`}
                 >
-                  {moves}
+                  {record.result === 'win' ? record.moves : record.result === 'loss' ? (record.declared ? '✗' : '🐉') : '–'}
                 </div>
               ))}
             </div>
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeGame } from './analysis';
+import { createClue } from './index';
+import type { Clue, Dungeon } from '../types';
+
+// Corridor 0-1-2-3-4 with the gem at the far end and a side room 5 off the entrance
+const dungeon: Dungeon = {
+  rooms: [
+    { id: 0, x: 0, y: 0, connections: [1, 5] },
+    { id: 1, x: 1, y: 0, connections: [0, 2] },
+    { id: 2, x: 2, y: 0, connections: [1, 3] },
+    { id: 3, x: 3, y: 0, connections: [2, 4] },
+    { id: 4, x: 4, y: 0, connections: [3] },
+    { id: 5, x: 0, y: 1, connections: [0] },
+  ],
+  entranceId: 0,
+  treasureId: 4,
+  dragonId: null,
+};
+
+// Room 1 repeats what the entrance already said; room 2 settles it
+const clues = new Map<number, Clue>([
+  [0, createClue({ category: 'spatial', axis: 'x', sign: 1 })],
+  [1, createClue({ category: 'spatial', axis: 'x', sign: 1 })],
+  [2, createClue({ category: 'exits', exitCount: 1 })],
+]);
+
+describe('analyzeGame', () => {
+  it('finds the move the gem became certain and the moves wasted after it', () => {
+    const analysis = analyzeGame(dungeon, clues, [0, 1, 2, 1, 2, 3, 4]);
+    expect(analysis.knownAtMove).toBe(2);
+    expect(analysis.movesAfterKnown).toBe(4);
+    expect(analysis.shortestAfterKnown).toBe(2);
+    expect(analysis.wastedMoves).toBe(2);
+  });
+
+  it('wastes nothing on a straight walk', () => {
+    const analysis = analyzeGame(dungeon, clues, [0, 1, 2, 3, 4]);
+    expect(analysis.knownAtMove).toBe(2);
+    expect(analysis.wastedMoves).toBe(0);
+  });
+
+  it('lists clues that ruled out nothing new', () => {
+    expect(analyzeGame(dungeon, clues, [0, 1, 2, 3, 4]).redundantClueRoomIds).toEqual([1]);
+  });
+
+  it('reports never knowing when the game ended first', () => {
+    const analysis = analyzeGame(dungeon, clues, [0, 1]);
+    expect(analysis.knownAtMove).toBeNull();
+    expect(analysis.wastedMoves).toBe(0);
+  });
+
+  it('analyses a game lost to the dragon', () => {
+    // Dragon in the side room: the gem was certain two moves in, two moves away
+    const analysis = analyzeGame({ ...dungeon, dragonId: 5 }, clues, [0, 1, 2, 1, 0, 5]);
+    expect(analysis.knownAtMove).toBe(2);
+    expect(analysis.shortestAfterKnown).toBe(2);
+    expect(analysis.redundantClueRoomIds).toEqual([1]);
+  });
+});
@@ -0,0 +1,44 @@
+import type { Clue, Dungeon, GameAnalysis } from '../types';
+import { getShortestRoute } from './graphUtils';
+import { getCandidateRoomIds } from './deduction';
+
+// Replay a route (room ids in move order, entrance first) against the
+// deduction overlay: when the gem's room became certain, how many moves the
+// walk there took compared with the shortest, and which clues narrowed
+// nothing. Works for lost games too. The gem's and dragon's rooms end the
+// game, so their clues are skipped and the lair teaches nothing in time.
+export function analyzeGame(dungeon: Dungeon, clues: Map<number, Clue>, route: number[]): GameAnalysis {
+  const { rooms, treasureId, dragonId } = dungeon;
+  const visited = new Set<number>();
+  const redundantClueRoomIds: number[] = [];
+  let knownAtMove: number | null = null;
+
+  route.forEach((roomId, move) => {
+    const isNew = !visited.has(roomId);
+    visited.add(roomId);
+    const candidates = getCandidateRoomIds(dungeon, clues, visited);
+
+    if (isNew && clues.has(roomId) && roomId !== treasureId && roomId !== dragonId) {
+      const withoutClue = new Map(clues);
+      withoutClue.delete(roomId);
+      if (getCandidateRoomIds(dungeon, withoutClue, visited).size === candidates.size) {
+        redundantClueRoomIds.push(roomId);
+      }
+    }
+
+    if (knownAtMove === null && roomId !== dragonId && candidates.size === 1) knownAtMove = move;
+  });
+
+  if (knownAtMove === null) {
+    return { knownAtMove, movesAfterKnown: 0, shortestAfterKnown: 0, wastedMoves: 0, redundantClueRoomIds };
+  }
+  const movesAfterKnown = route.length - 1 - knownAtMove;
+  const shortestAfterKnown = Math.max(0, getShortestRoute(rooms, route[knownAtMove], treasureId, dragonId).length - 1);
+  return {
+    knownAtMove,
+    movesAfterKnown,
+    shortestAfterKnown,
+    wastedMoves: Math.max(0, movesAfterKnown - shortestAfterKnown),
+    redundantClueRoomIds,
+  };
+}
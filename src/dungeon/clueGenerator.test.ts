@@ -1,7 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { generateClues, roomMatchesClue } from './clueGenerator';
-import { generateDungeon, calculateDistances } from './index';
-import type { ClueCategory } from '../types';
+import { generateClues, roomMatchesClue, cluesNeededToSolve, ClueGenerationError, DEFAULT_CLUE_OPTIONS } from './clueGenerator';
+import { generateDungeon, calculateDistances, CLUE_ICONS } from './index';
+import type { ClueCategory, Room } from '../types';
 
 describe('generateClues', () => {
   const dateString = '2026-02-05';
@@ -20,16 +20,13 @@ describe('generateClues', () => {
   });
 
   it('does not generate a clue for the dragon room', () => {
-    expect(clues.has(dungeon.dragonId)).toBe(false);
+    expect(clues.has(dungeon.dragonId!)).toBe(false);
   });
 
   it('includes at least one of each clue category', () => {
     const cats = new Set<ClueCategory>();
     for (const clue of clues.values()) cats.add(clue.category);
-    expect(cats.has('exits')).toBe(true);
-    expect(cats.has('spatial')).toBe(true);
-    expect(cats.has('manhattan')).toBe(true);
-    expect(cats.has('entrance')).toBe(true);
+    expect(cats).toEqual(new Set(DEFAULT_CLUE_OPTIONS.categories));
   });
 
   it('is deterministic — same inputs produce same output', () => {
@@ -47,7 +44,7 @@ describe('generateClues', () => {
     const expectedExits = treasure.connections.length;
     for (const [, clue] of clues) {
       if (clue.category !== 'exits') continue;
-      expect(parseInt(clue.compact)).toBe(expectedExits);
+      expect(clue.exitCount).toBe(expectedExits);
       expect(clue.text).toContain(`${expectedExits} exit`);
     }
   });
@@ -57,14 +54,8 @@ describe('generateClues', () => {
     for (const [roomId, clue] of clues) {
       if (clue.category !== 'spatial') continue;
       const room = dungeon.rooms.find(r => r.id === roomId)!;
-      const dx = treasure.x - room.x;
-      const dy = treasure.y - room.y;
-      if (clue.compact.includes('Right')) expect(dx).toBeGreaterThan(0);
-      else if (clue.compact.includes('Left')) expect(dx).toBeLessThan(0);
-      else if (clue.compact.includes('Below')) expect(dy).toBeGreaterThan(0);
-      else if (clue.compact.includes('Above')) expect(dy).toBeLessThan(0);
-      else if (clue.compact.includes('Col')) expect(dx).toBe(0);
-      else if (clue.compact.includes('Row')) expect(dy).toBe(0);
+      const delta = clue.axis === 'x' ? treasure.x - room.x : treasure.y - room.y;
+      expect(Math.sign(delta)).toBe(clue.sign);
     }
   });
 
@@ -74,6 +65,7 @@ describe('generateClues', () => {
       if (clue.category !== 'manhattan') continue;
       const room = dungeon.rooms.find(r => r.id === roomId)!;
       const expectedDist = Math.abs(treasure.x - room.x) + Math.abs(treasure.y - room.y);
+      expect(clue.distance).toBe(expectedDist);
       expect(clue.compact).toBe(`${expectedDist} sq.`);
       expect(clue.text).toContain(`${expectedDist} grid square`);
     }
@@ -84,12 +76,13 @@ describe('generateClues', () => {
     for (const [roomId, clue] of clues) {
       if (clue.category !== 'entrance') continue;
       const expected = distFromTreasure.get(roomId)!;
+      expect(clue.steps).toBe(expected);
       expect(clue.text).toContain(`${expected} steps`);
     }
   });
 
   it('all clues have valid icon and non-empty text', () => {
-    const validIcons = ['\u{1F517}', '\u{1F4CD}', '\u{1F4CF}', '\u{1F6AA}'];
+    const validIcons = Object.values(CLUE_ICONS);
     for (const clue of clues.values()) {
       expect(validIcons).toContain(clue.icon);
       expect(clue.text.length).toBeGreaterThan(0);
@@ -97,6 +90,14 @@ describe('generateClues', () => {
     }
   });
 
+  it('every clue holds for the treasure room', () => {
+    const treasure = dungeon.rooms.find(r => r.id === dungeon.treasureId)!;
+    for (const [roomId, clue] of clues) {
+      const room = dungeon.rooms.find(r => r.id === roomId)!;
+      expect(roomMatchesClue(treasure, clue, room, dungeon.rooms)).toBe(true);
+    }
+  });
+
   it('produces different clue assignments for different dates', () => {
     const other = generateClues(dungeon, '2026-03-15');
     let diffs = 0;
@@ -145,23 +146,84 @@ describe('generateClues', () => {
         const d = generateDungeon(date);
         const c = generateClues(d, date);
         for (const clue of c.values()) {
-          if (clue.category === 'exits') exitValues.add(parseInt(clue.compact));
+          if (clue.category === 'exits') exitValues.add(clue.exitCount);
         }
       }
       expect(exitValues.size).toBeGreaterThanOrEqual(2);
     });
 
     it('manhattan clues produce varying distances across rooms', () => {
-      const manhattanValues = new Set<string>();
+      const manhattanValues = new Set<number>();
       for (let i = 1; i <= 10; i++) {
         const date = `2026-04-${String(i).padStart(2, '0')}`;
         const d = generateDungeon(date);
         const c = generateClues(d, date);
         for (const clue of c.values()) {
-          if (clue.category === 'manhattan') manhattanValues.add(clue.compact);
+          if (clue.category === 'manhattan') manhattanValues.add(clue.distance);
         }
       }
       expect(manhattanValues.size).toBeGreaterThanOrEqual(3);
     });
   });
+
+  describe('constructive fallback', () => {
+    // With an exits-heavy mix, random shuffles leave this date ambiguous and
+    // the generator has to swap in spatial clues to isolate the gem
+    const mix: ClueCategory[] = ['exits', 'exits', 'exits', 'exits', 'exits', 'exits', 'exits', 'exits', 'spatial'];
+
+    it.each(['2026-02-22', '2026-02-23'])('repairs an ambiguous assignment for %s', (date) => {
+      const d = generateDungeon(date);
+      const c = generateClues(d, date, { categories: mix });
+      expect(cluesNeededToSolve(d, c)).not.toBeNull();
+      for (const clue of c.values()) expect(mix).toContain(clue.category);
+    });
+
+    it('throws when no assignment can isolate the gem', () => {
+      const d = generateDungeon(dateString);
+      expect(() => generateClues(d, dateString, { categories: ['exits'] })).toThrow(ClueGenerationError);
+    });
+  });
+});
+
+describe('roomMatchesClue', () => {
+  // 3x3 block around the origin; the centre room is the only non-dead end
+  const centre: Room = { id: 4, x: 0, y: 0, connections: [1, 3, 5, 7] };
+  const rooms: Room[] = [
+    { id: 0, x: -1, y: -1, connections: [] },
+    { id: 1, x: 0, y: -1, connections: [4] },
+    { id: 2, x: 1, y: -1, connections: [] },
+    { id: 3, x: -1, y: 0, connections: [4] },
+    centre,
+    { id: 5, x: 1, y: 0, connections: [4] },
+    { id: 6, x: -1, y: 1, connections: [] },
+    { id: 7, x: 0, y: 1, connections: [4] },
+    { id: 8, x: 1, y: 1, connections: [] },
+  ];
+  const matching = (clue: Parameters<typeof roomMatchesClue>[1]) =>
+    rooms.filter(r => roomMatchesClue(r, clue, centre, rooms)).map(r => r.id);
+
+  it('negative clues exclude one side of the clue room', () => {
+    expect(matching({ category: 'negative', axis: 'x', sign: -1 })).toEqual([1, 2, 4, 5, 7, 8]);
+    expect(matching({ category: 'negative', axis: 'y', sign: 0 })).toEqual([0, 1, 2, 6, 7, 8]);
+  });
+
+  it('parity clues count rows and columns from the entrance', () => {
+    expect(matching({ category: 'parity', axis: 'x', even: true })).toEqual([1, 4, 7]);
+    expect(matching({ category: 'parity', axis: 'y', even: false })).toEqual([0, 1, 2, 6, 7, 8]);
+  });
+
+  it('quadrant clues split the map through the clue room, including its row and column', () => {
+    expect(matching({ category: 'quadrant', quadrant: 'north-east' })).toEqual([1, 2, 4, 5]);
+    expect(matching({ category: 'quadrant', quadrant: 'south-west' })).toEqual([3, 4, 6, 7]);
+    const corner = rooms[0];
+    expect(rooms.filter(r => roomMatchesClue(r, { category: 'quadrant', quadrant: 'south-east' }, corner, rooms)).map(r => r.id))
+      .toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(rooms.filter(r => roomMatchesClue(r, { category: 'quadrant', quadrant: 'north-east' }, corner, rooms)).map(r => r.id))
+      .toEqual([0, 1, 2]);
+  });
+
+  it('dead-end clues match rooms with a single exit', () => {
+    expect(matching({ category: 'dead-end', isDeadEnd: true })).toEqual([1, 3, 5, 7]);
+    expect(matching({ category: 'dead-end', isDeadEnd: false })).toEqual([0, 2, 4, 6, 8]);
+  });
 });
@@ -1,8 +1,32 @@
-import type { Dungeon, Clue, ClueCategory, Room } from '../types';
+import type { Dungeon, Clue, ClueAxis, ClueCategory, ClueOptions, CluePayload, ClueQuadrant, ClueSign, Room } from '../types';
 import { calculateDistances } from './graphUtils';
+import { createClue } from './clueText';
 import { createSeededRandom, dateToSeed } from './seedRandom';
 
-export function generateClues(dungeon: Dungeon, dateString: string): Map<number, Clue> {
+export const DEFAULT_CLUE_OPTIONS: ClueOptions = {
+  // Classic categories are weighted double; the vaguer ones add variety
+  categories: [
+    'exits', 'exits', 'spatial', 'spatial', 'manhattan', 'manhattan', 'entrance', 'entrance',
+    'negative', 'parity', 'quadrant', 'dead-end',
+  ],
+  minCluesToSolve: 1,
+  maxCluesToSolve: null,
+};
+
+// Thrown when no clue assignment can isolate the treasure
+export class ClueGenerationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClueGenerationError';
+  }
+}
+
+export function generateClues(
+  dungeon: Dungeon,
+  dateString: string,
+  overrides: Partial<ClueOptions> = {}
+): Map<number, Clue> {
+  const options: ClueOptions = { ...DEFAULT_CLUE_OPTIONS, ...overrides };
   const seed = dateToSeed(dateString + '-clues');
   const random = createSeededRandom(seed);
   const { rooms, entranceId, treasureId } = dungeon;
@@ -15,24 +39,26 @@ export function generateClues(dungeon: Dungeon, dateString: string): Map<number,
     .filter(r => r.id !== treasureId && r.id !== dungeon.dragonId)
     .sort((a, b) => (distFromEntrance.get(a.id) || 0) - (distFromEntrance.get(b.id) || 0));
 
-  const categories: ClueCategory[] = ['exits', 'spatial', 'manhattan', 'entrance'];
+  const { categories } = options;
+  const distinctCategories = [...new Set(categories)];
 
   // Retry loop: reshuffle assignments until clues uniquely identify treasure
   const maxAttempts = 10;
   let lastClues: Map<number, Clue> = new Map();
+  let firstSolvable: Map<number, Clue> | null = null;
 
   for (let attempt = 0; attempt < maxAttempts; attempt++) {
     const assignments = new Map<number, ClueCategory>();
 
-    // Guarantee: first 4 closest rooms each get a different category (shuffled)
-    const guaranteed = clueRooms.slice(0, 4);
-    const shuffledCats = [...categories].sort(() => random() - 0.5);
+    // Guarantee: closest rooms each get a different category (shuffled)
+    const guaranteed = clueRooms.slice(0, distinctCategories.length);
+    const shuffledCats = [...distinctCategories].sort(() => random() - 0.5);
     for (let i = 0; i < guaranteed.length; i++) {
       assignments.set(guaranteed[i].id, shuffledCats[i]);
     }
 
-    // Remaining rooms get random categories
-    for (const room of clueRooms.slice(4)) {
+    // Remaining rooms get random categories from the weighted mix
+    for (const room of clueRooms.slice(distinctCategories.length)) {
       assignments.set(room.id, categories[Math.floor(random() * categories.length)]);
     }
 
@@ -44,13 +70,143 @@ export function generateClues(dungeon: Dungeon, dateString: string): Map<number,
     }
 
     // Check solvability: all clues combined must uniquely identify treasure
-    if (isSolvable(lastClues, rooms, treasureId)) {
+    if (!isSolvable(lastClues, rooms, treasureId)) continue;
+    firstSolvable ??= lastClues;
+
+    // Check difficulty: nearest-first clue count to isolate the gem is within bounds
+    const needed = cluesNeededToSolve(dungeon, lastClues)!;
+    const maxNeeded = options.maxCluesToSolve ?? clueRooms.length;
+    if (needed >= options.minCluesToSolve && needed <= maxNeeded) {
       return lastClues;
     }
   }
 
-  // Return last attempt even if not perfectly solvable (safety net)
-  return lastClues;
+  // Prefer a solvable attempt outside the difficulty bounds
+  if (firstSolvable) return firstSolvable;
+
+  // Random shuffles failed: swap in the clues that eliminate the remaining candidates
+  const repaired = repairClues(lastClues, clueRooms, dungeon, distinctCategories, distFromTreasure);
+  if (!repaired) {
+    throw new ClueGenerationError(`Clues cannot isolate the treasure for seed "${dateString}"`);
+  }
+  return repaired;
+}
+
+// Every clue a room could truthfully show about the treasure, per allowed category
+function possibleClues(
+  room: Room,
+  treasureRoom: Room,
+  distFromTreasure: Map<number, number>,
+  categories: ClueCategory[]
+): Clue[] {
+  const result: Clue[] = [];
+  for (const category of categories) {
+    if (category === 'spatial') {
+      for (const axis of AXES) {
+        result.push(createClue({ category, axis, sign: treasureSign(axis, room, treasureRoom) }));
+      }
+    } else if (category === 'negative') {
+      for (const axis of AXES) {
+        const actual = treasureSign(axis, room, treasureRoom);
+        for (const sign of SIGNS.filter(s => s !== actual)) {
+          result.push(createClue({ category, axis, sign }));
+        }
+      }
+    } else if (category === 'parity') {
+      for (const axis of AXES) {
+        result.push(createClue({ category, axis, even: isEven(axis === 'x' ? treasureRoom.x : treasureRoom.y) }));
+      }
+    } else {
+      // The remaining clues don't draw randomness, so a stub generator suffices
+      result.push(buildClue(category, room, treasureRoom, distFromTreasure, () => 0));
+    }
+  }
+  return result;
+}
+
+// Greedily replace one clue at a time with the option that leaves the fewest
+// candidates, until only the treasure remains (null if progress stalls)
+function repairClues(
+  clues: Map<number, Clue>,
+  clueRooms: Room[],
+  dungeon: Dungeon,
+  categories: ClueCategory[],
+  distFromTreasure: Map<number, number>
+): Map<number, Clue> | null {
+  const { rooms, treasureId } = dungeon;
+  const treasureRoom = rooms.find(r => r.id === treasureId)!;
+
+  // Candidate set allowed by each (room, clue) option, computed once
+  const matchCache = new Map<Clue, Set<number>>();
+  const matchesFor = (room: Room, clue: Clue): Set<number> => {
+    let matches = matchCache.get(clue);
+    if (!matches) {
+      matches = new Set(rooms.filter(c => roomMatchesClue(c, clue, room, rooms)).map(c => c.id));
+      matchCache.set(clue, matches);
+    }
+    return matches;
+  };
+  const options = new Map(clueRooms.map(room => [
+    room.id,
+    possibleClues(room, treasureRoom, distFromTreasure, categories),
+  ]));
+
+  const repaired = new Map(clues);
+  const countCandidates = (assignment: Map<number, Clue>): number => {
+    let count = 0;
+    for (const candidate of rooms) {
+      let matchesAll = true;
+      for (const room of clueRooms) {
+        const clue = assignment.get(room.id)!;
+        if (!matchesFor(room, clue).has(candidate.id)) {
+          matchesAll = false;
+          break;
+        }
+      }
+      if (matchesAll) count++;
+    }
+    return count;
+  };
+
+  let remaining = countCandidates(repaired);
+  while (remaining > 1) {
+    let best: { roomId: number; clue: Clue; count: number } | null = null;
+    for (const room of clueRooms) {
+      const current = repaired.get(room.id)!;
+      for (const option of options.get(room.id)!) {
+        if (option.compact === current.compact && option.category === current.category) continue;
+        repaired.set(room.id, option);
+        const count = countCandidates(repaired);
+        if (!best || count < best.count) best = { roomId: room.id, clue: option, count };
+      }
+      repaired.set(room.id, current);
+    }
+
+    if (!best || best.count >= remaining) return null;
+    repaired.set(best.roomId, best.clue);
+    remaining = best.count;
+  }
+
+  return isSolvable(repaired, rooms, treasureId) ? repaired : null;
+}
+
+// Number of clues, collected nearest-first from the entrance, needed to
+// narrow the candidates down to the treasure alone (null if never)
+export function cluesNeededToSolve(dungeon: Dungeon, clues: Map<number, Clue>): number | null {
+  const { rooms, entranceId, treasureId } = dungeon;
+  const distFromEntrance = calculateDistances(rooms, entranceId);
+  const ordered = [...clues.keys()].sort(
+    (a, b) => (distFromEntrance.get(a) || 0) - (distFromEntrance.get(b) || 0)
+  );
+
+  let candidates = rooms;
+  for (let i = 0; i < ordered.length; i++) {
+    const clueRoom = rooms.find(r => r.id === ordered[i])!;
+    const clue = clues.get(ordered[i])!;
+    candidates = candidates.filter(c => roomMatchesClue(c, clue, clueRoom, rooms));
+    if (candidates.length === 1 && candidates[0].id === treasureId) return i + 1;
+  }
+  return null;
 }
 
 function isSolvable(
@@ -73,54 +229,62 @@ function isSolvable(
 
 export function roomMatchesClue(
   candidate: Room,
-  clue: Clue,
+  clue: CluePayload,
   clueRoom: Room,
   rooms: Room[]
 ): boolean {
   switch (clue.category) {
-    case 'exits': {
-      const n = parseInt(clue.compact);
-      return candidate.connections.length === n;
-    }
+    case 'exits':
+      return candidate.connections.length === clue.exitCount;
     case 'spatial': {
-      const dx = candidate.x - clueRoom.x;
-      const dy = candidate.y - clueRoom.y;
-      if (clue.compact.includes('Right')) return dx > 0;
-      if (clue.compact.includes('Left')) return dx < 0;
-      if (clue.compact.includes('Below')) return dy > 0;
-      if (clue.compact.includes('Above')) return dy < 0;
-      if (clue.compact.includes('Col')) return dx === 0;
-      if (clue.compact.includes('Row')) return dy === 0;
-      return true;
+      const delta = clue.axis === 'x' ? candidate.x - clueRoom.x : candidate.y - clueRoom.y;
+      return Math.sign(delta) === clue.sign;
     }
     case 'manhattan': {
-      const n = parseInt(clue.compact);
       const dx = Math.abs(candidate.x - clueRoom.x);
       const dy = Math.abs(candidate.y - clueRoom.y);
-      return (dx + dy) === n;
+      return (dx + dy) === clue.distance;
     }
     case 'entrance': {
-      const d = parseInt(clue.compact);
       const distFromClueRoom = calculateDistances(rooms, clueRoom.id);
-      return distFromClueRoom.get(candidate.id) === d;
+      return distFromClueRoom.get(candidate.id) === clue.steps;
+    }
+    case 'negative': {
+      const delta = clue.axis === 'x' ? candidate.x - clueRoom.x : candidate.y - clueRoom.y;
+      return Math.sign(delta) !== clue.sign;
     }
+    case 'parity':
+      return isEven(clue.axis === 'x' ? candidate.x : candidate.y) === clue.even;
+    case 'quadrant':
+      return isInQuadrant(candidate, clue.quadrant, clueRoom);
+    case 'dead-end':
+      return (candidate.connections.length === 1) === clue.isDeadEnd;
     default:
       return true;
   }
 }
 
-function buildSpatialClue(dx: number, dy: number, useX: boolean): Clue {
-  const icon = '\u{1F4CD}';
+const AXES: ClueAxis[] = ['x', 'y'];
+const SIGNS: ClueSign[] = [-1, 0, 1];
 
-  if (useX) {
-    if (dx > 0) return { category: 'spatial', text: 'The gem is to the right of here', compact: '\u2192 Right', icon };
-    if (dx < 0) return { category: 'spatial', text: 'The gem is to the left of here', compact: '\u2190 Left', icon };
-    return { category: 'spatial', text: 'The gem is in the same column', compact: '↕ Col', icon };
-  }
+function treasureSign(axis: ClueAxis, room: Room, treasureRoom: Room): ClueSign {
+  const delta = axis === 'x' ? treasureRoom.x - room.x : treasureRoom.y - room.y;
+  return Math.sign(delta) as ClueSign;
+}
 
-  if (dy > 0) return { category: 'spatial', text: 'The gem is below here', compact: '\u2193 Below', icon };
-  if (dy < 0) return { category: 'spatial', text: 'The gem is above here', compact: '\u2191 Above', icon };
-  return { category: 'spatial', text: 'The gem is in the same row', compact: '↔ Row', icon };
+// Rows and columns are counted from the entrance, which sits at the origin
+function isEven(coordinate: number): boolean {
+  return Math.abs(coordinate) % 2 === 0;
+}
+
+// Quadrants split the map through the clue's own room, so the player can
+// read them off what they see; rooms in its row or column belong to both
+// halves the line separates
+function isInQuadrant(room: Room, quadrant: ClueQuadrant, clueRoom: Room): boolean {
+  const [vertical, horizontal] = quadrant.split('-');
+  const inVertical = vertical === 'north' ? room.y <= clueRoom.y : room.y >= clueRoom.y;
+  const inHorizontal = horizontal === 'west' ? room.x <= clueRoom.x : room.x >= clueRoom.x;
+  return inVertical && inHorizontal;
 }
 
 function buildClue(
@@ -131,37 +295,34 @@ function buildClue(
   random: () => number
 ): Clue {
   switch (category) {
-    case 'exits': {
-      const exitCount = treasureRoom.connections.length;
-      return {
-        category: 'exits',
-        text: `The gem chamber has ${exitCount} exit${exitCount !== 1 ? 's' : ''}`,
-        compact: `${exitCount} exit${exitCount !== 1 ? 's' : ''}`,
-        icon: '\u{1F517}',
-      };
-    }
+    case 'exits':
+      return createClue({ category: 'exits', exitCount: treasureRoom.connections.length });
     case 'spatial': {
-      const dx = treasureRoom.x - room.x;
-      const dy = treasureRoom.y - room.y;
-      return buildSpatialClue(dx, dy, random() < 0.5);
+      const axis = random() < 0.5 ? 'x' : 'y';
+      return createClue({ category: 'spatial', axis, sign: treasureSign(axis, room, treasureRoom) });
     }
     case 'manhattan': {
-      const manhattan = Math.abs(treasureRoom.x - room.x) + Math.abs(treasureRoom.y - room.y);
-      return {
-        category: 'manhattan',
-        text: `The gem is ${manhattan} grid square${manhattan !== 1 ? 's' : ''} away`,
-        compact: `${manhattan} sq.`,
-        icon: '\u{1F4CF}',
-      };
+      const distance = Math.abs(treasureRoom.x - room.x) + Math.abs(treasureRoom.y - room.y);
+      return createClue({ category: 'manhattan', distance });
     }
-    case 'entrance': {
-      const d = distFromTreasure.get(room.id) || 0;
-      return {
-        category: 'entrance',
-        text: `The gem is ${d} steps from here`,
-        compact: `${d} steps`,
-        icon: '\u{1F6AA}',
-      };
+    case 'entrance':
+      return createClue({ category: 'entrance', steps: distFromTreasure.get(room.id) || 0 });
+    case 'negative': {
+      const axis = random() < 0.5 ? 'x' : 'y';
+      const actual = treasureSign(axis, room, treasureRoom);
+      const falseSigns = SIGNS.filter(s => s !== actual);
+      return createClue({ category: 'negative', axis, sign: falseSigns[Math.floor(random() * falseSigns.length)] });
+    }
+    case 'parity': {
+      const axis = random() < 0.5 ? 'x' : 'y';
+      return createClue({ category: 'parity', axis, even: isEven(axis === 'x' ? treasureRoom.x : treasureRoom.y) });
+    }
+    case 'quadrant': {
+      const vertical = treasureRoom.y <= room.y ? 'north' : 'south';
+      const horizontal = treasureRoom.x >= room.x ? 'east' : 'west';
+      return createClue({ category: 'quadrant', quadrant: `${vertical}-${horizontal}` });
     }
+    case 'dead-end':
+      return createClue({ category: 'dead-end', isDeadEnd: treasureRoom.connections.length === 1 });
   }
 }
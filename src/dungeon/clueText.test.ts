@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { createClue, formatClueCompact, formatClueText } from './clueText';
+
+describe('clue text rendering', () => {
+  it('renders exits clues with pluralisation', () => {
+    expect(formatClueText({ category: 'exits', exitCount: 3 })).toBe('The gem chamber has 3 exits');
+    expect(formatClueCompact({ category: 'exits', exitCount: 1 })).toBe('1 exit');
+  });
+
+  it('renders every spatial axis and sign', () => {
+    expect(formatClueCompact({ category: 'spatial', axis: 'x', sign: 1 })).toBe('→ Right');
+    expect(formatClueCompact({ category: 'spatial', axis: 'x', sign: -1 })).toBe('← Left');
+    expect(formatClueCompact({ category: 'spatial', axis: 'x', sign: 0 })).toBe('↕ Col');
+    expect(formatClueCompact({ category: 'spatial', axis: 'y', sign: 1 })).toBe('↓ Below');
+    expect(formatClueCompact({ category: 'spatial', axis: 'y', sign: -1 })).toBe('↑ Above');
+    expect(formatClueCompact({ category: 'spatial', axis: 'y', sign: 0 })).toBe('↔ Row');
+    expect(formatClueText({ category: 'spatial', axis: 'y', sign: 0 })).toBe('The gem is in the same row');
+  });
+
+  it('renders distance clues', () => {
+    expect(formatClueText({ category: 'manhattan', distance: 1 })).toBe('The gem is 1 grid square away');
+    expect(formatClueCompact({ category: 'manhattan', distance: 4 })).toBe('4 sq.');
+    expect(formatClueText({ category: 'entrance', steps: 5 })).toBe('The gem is 5 steps from here');
+    expect(formatClueCompact({ category: 'entrance', steps: 5 })).toBe('5 steps');
+  });
+
+  it('renders negative, parity, quadrant and dead-end clues', () => {
+    expect(formatClueText({ category: 'negative', axis: 'x', sign: -1 })).toBe('The gem is NOT to the left of here');
+    expect(formatClueCompact({ category: 'negative', axis: 'y', sign: 0 })).toBe('Not ↔');
+    expect(formatClueText({ category: 'parity', axis: 'y', even: true }))
+      .toBe("The gem's row is even, counting from the entrance");
+    expect(formatClueCompact({ category: 'parity', axis: 'x', even: false })).toBe('Col odd');
+    expect(formatClueText({ category: 'quadrant', quadrant: 'north-east' }))
+      .toBe('The gem lies in the north-east quadrant, seen from here');
+    expect(formatClueCompact({ category: 'quadrant', quadrant: 'south-west' })).toBe('SW quad.');
+    expect(formatClueText({ category: 'dead-end', isDeadEnd: true })).toBe('The gem is in a dead end');
+    expect(formatClueCompact({ category: 'dead-end', isDeadEnd: false })).toBe('No dead end');
+  });
+
+  it('createClue keeps the payload alongside rendered strings', () => {
+    const clue = createClue({ category: 'manhattan', distance: 2 });
+    expect(clue.category).toBe('manhattan');
+    expect(clue.distance).toBe(2);
+    expect(clue.compact).toBe('2 sq.');
+    expect(clue.icon).toBe('\u{1F4CF}');
+  });
+});
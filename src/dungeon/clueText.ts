@@ -0,0 +1,115 @@
+import type { Clue, ClueAxis, ClueCategory, CluePayload, ClueQuadrant, ClueSign } from '../types';
+
+export const CLUE_ICONS: Record<ClueCategory, string> = {
+  exits: '\u{1F517}',
+  spatial: '\u{1F4CD}',
+  manhattan: '\u{1F4CF}',
+  entrance: '\u{1F6AA}',
+  negative: '\u{1F6AB}',
+  parity: '\u{1F522}',
+  quadrant: '\u{1F9ED}',
+  'dead-end': '\u{1F9F1}',
+};
+
+const QUADRANT_ABBREVIATIONS: Record<ClueQuadrant, string> = {
+  'north-east': 'NE',
+  'north-west': 'NW',
+  'south-east': 'SE',
+  'south-west': 'SW',
+};
+
+type Direction = { axis: ClueAxis; sign: ClueSign };
+
+function plural(n: number, word: string): string {
+  return `${n} ${word}${n !== 1 ? 's' : ''}`;
+}
+
+// Arrow glyph for a spatial or negative clue (rendered larger by the map)
+export function spatialArrow(payload: Direction): string {
+  if (payload.axis === 'x') {
+    if (payload.sign > 0) return '→';
+    if (payload.sign < 0) return '←';
+    return '↕';
+  }
+  if (payload.sign > 0) return '↓';
+  if (payload.sign < 0) return '↑';
+  return '↔';
+}
+
+// Short label following the arrow of a spatial clue
+export function spatialLabel(payload: Direction): string {
+  if (payload.axis === 'x') {
+    if (payload.sign > 0) return 'Right';
+    if (payload.sign < 0) return 'Left';
+    return 'Col';
+  }
+  if (payload.sign > 0) return 'Below';
+  if (payload.sign < 0) return 'Above';
+  return 'Row';
+}
+
+// Where the gem lies relative to here, e.g. "to the left of here"
+function directionPhrase({ axis, sign }: Direction): string {
+  if (axis === 'x') {
+    if (sign > 0) return 'to the right of here';
+    if (sign < 0) return 'to the left of here';
+    return 'in the same column';
+  }
+  if (sign > 0) return 'below here';
+  if (sign < 0) return 'above here';
+  return 'in the same row';
+}
+
+// Full sentence shown in the status bar
+export function formatClueText(payload: CluePayload): string {
+  switch (payload.category) {
+    case 'exits':
+      return `The gem chamber has ${plural(payload.exitCount, 'exit')}`;
+    case 'spatial':
+      return `The gem is ${directionPhrase(payload)}`;
+    case 'manhattan':
+      return `The gem is ${plural(payload.distance, 'grid square')} away`;
+    case 'entrance':
+      return `The gem is ${payload.steps} steps from here`;
+    case 'negative':
+      return `The gem is NOT ${directionPhrase(payload)}`;
+    case 'parity':
+      return `The gem's ${payload.axis === 'x' ? 'column' : 'row'} is ${payload.even ? 'even' : 'odd'}, counting from the entrance`;
+    case 'quadrant':
+      return `The gem lies in the ${payload.quadrant} quadrant, seen from here`;
+    case 'dead-end':
+      return payload.isDeadEnd ? 'The gem is in a dead end' : 'The gem is not in a dead end';
+  }
+}
+
+// Short label shown inside a room on the map
+export function formatClueCompact(payload: CluePayload): string {
+  switch (payload.category) {
+    case 'exits':
+      return plural(payload.exitCount, 'exit');
+    case 'spatial':
+      return `${spatialArrow(payload)} ${spatialLabel(payload)}`;
+    case 'manhattan':
+      return `${payload.distance} sq.`;
+    case 'entrance':
+      return `${payload.steps} steps`;
+    case 'negative':
+      return `Not ${spatialArrow(payload)}`;
+    case 'parity':
+      return `${payload.axis === 'x' ? 'Col' : 'Row'} ${payload.even ? 'even' : 'odd'}`;
+    case 'quadrant':
+      return `${QUADRANT_ABBREVIATIONS[payload.quadrant]} quad.`;
+    case 'dead-end':
+      return payload.isDeadEnd ? 'Dead end' : 'No dead end';
+  }
+}
+
+// Attach rendered text to a clue payload
+export function createClue<P extends CluePayload>(payload: P): P & Omit<Clue, 'category'> {
+  return {
+    ...payload,
+    text: formatClueText(payload),
+    compact: formatClueCompact(payload),
+    icon: CLUE_ICONS[payload.category],
+  };
+}
@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { getPuzzleNumber, getPreviousDateString, getArchiveDates, LAUNCH_DATE } from './dateUtils';
+
+describe('date utilities', () => {
+  it('numbers puzzles from the launch date', () => {
+    expect(getPuzzleNumber(LAUNCH_DATE)).toBe(1);
+    expect(getPuzzleNumber('2026-03-01')).toBe(25);
+  });
+
+  it('steps back across month and year boundaries', () => {
+    expect(getPreviousDateString('2026-03-01')).toBe('2026-02-28');
+    expect(getPreviousDateString('2027-01-01')).toBe('2026-12-31');
+  });
+
+  it('lists every past daily since launch, newest first', () => {
+    expect(getArchiveDates('2026-02-08')).toEqual(['2026-02-07', '2026-02-06', '2026-02-05']);
+    expect(getArchiveDates(LAUNCH_DATE)).toEqual([]);
+  });
+});
@@ -1,3 +1,6 @@
+// Date of puzzle #1
+export const LAUNCH_DATE = '2026-02-05';
+
 // Get today's date string in YYYY-MM-DD format
 export function getTodayDateString(): string {
   const now = new Date();
@@ -6,9 +9,25 @@ export function getTodayDateString(): string {
 
 // Calculate puzzle number (days since launch)
 export function getPuzzleNumber(dateString: string): number {
-  const launchDate = new Date('2026-02-05');
+  const launchDate = new Date(LAUNCH_DATE);
   const currentDate = new Date(dateString);
   const diffTime = currentDate.getTime() - launchDate.getTime();
   const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
   return diffDays + 1;
 }
+
+// The day before a YYYY-MM-DD date string
+export function getPreviousDateString(dateString: string): string {
+  const date = new Date(dateString);
+  date.setUTCDate(date.getUTCDate() - 1);
+  return date.toISOString().split('T')[0];
+}
+
+// Every past daily since launch, newest first (today's puzzle excluded)
+export function getArchiveDates(today: string): string[] {
+  const dates: string[] = [];
+  for (let date = getPreviousDateString(today); date >= LAUNCH_DATE; date = getPreviousDateString(date)) {
+    dates.push(date);
+  }
+  return dates;
+}
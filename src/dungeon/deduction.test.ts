@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { getCandidateRoomIds } from './deduction';
+import { createClue, generatePuzzle } from './index';
+import type { Clue, Dungeon } from '../types';
+
+// 2x2 square with the treasure in the bottom-right corner
+const dungeon: Dungeon = {
+  rooms: [
+    { id: 0, x: 0, y: 0, connections: [1, 2] },
+    { id: 1, x: 1, y: 0, connections: [0, 3] },
+    { id: 2, x: 0, y: 1, connections: [0, 3] },
+    { id: 3, x: 1, y: 1, connections: [1, 2] },
+  ],
+  entranceId: 0,
+  treasureId: 3,
+  dragonId: null,
+};
+
+const clues = new Map<number, Clue>([
+  [0, createClue({ category: 'spatial', axis: 'x', sign: 1 })],
+  [1, createClue({ category: 'spatial', axis: 'y', sign: 1 })],
+  [2, createClue({ category: 'manhattan', distance: 1 })],
+]);
+
+describe('getCandidateRoomIds', () => {
+  it('keeps every unvisited room matching the collected clues only', () => {
+    expect(getCandidateRoomIds(dungeon, clues, [0])).toEqual(new Set([1, 3]));
+  });
+
+  it('rules out visited rooms and narrows with each clue', () => {
+    expect(getCandidateRoomIds(dungeon, clues, [0, 1])).toEqual(new Set([3]));
+  });
+
+  it('combines clues from every visited room', () => {
+    expect(getCandidateRoomIds(dungeon, clues, [0, 2])).toEqual(new Set([3]));
+  });
+
+  it('collapses to the treasure once it has been found', () => {
+    expect(getCandidateRoomIds(dungeon, clues, [0, 1, 3])).toEqual(new Set([3]));
+  });
+
+  it('always keeps the real treasure among the candidates', () => {
+    const puzzle = generatePuzzle('2026-02-05');
+    const visited = [...puzzle.clues.keys()];
+    for (let i = 1; i <= visited.length; i++) {
+      expect(getCandidateRoomIds(puzzle.dungeon, puzzle.clues, visited.slice(0, i)).has(puzzle.dungeon.treasureId)).toBe(true);
+    }
+    expect(getCandidateRoomIds(puzzle.dungeon, puzzle.clues, visited)).toEqual(new Set([puzzle.dungeon.treasureId]));
+  });
+});
@@ -0,0 +1,25 @@
+import type { Clue, Dungeon } from '../types';
+import { roomMatchesClue } from './clueGenerator';
+
+// Rooms that could still hold the gem given the clues collected so far.
+// Visited rooms are ruled out unless they are the treasure itself.
+export function getCandidateRoomIds(
+  dungeon: Dungeon,
+  clues: Map<number, Clue>,
+  visitedRoomIds: Iterable<number>
+): Set<number> {
+  const { rooms, treasureId } = dungeon;
+  const visited = new Set(visitedRoomIds);
+
+  if (visited.has(treasureId)) return new Set([treasureId]);
+
+  let candidates = rooms.filter((r) => !visited.has(r.id));
+  for (const roomId of visited) {
+    const clue = clues.get(roomId);
+    if (!clue) continue;
+    const clueRoom = rooms.find((r) => r.id === roomId)!;
+    candidates = candidates.filter((c) => roomMatchesClue(c, clue, clueRoom, rooms));
+  }
+
+  return new Set(candidates.map((r) => r.id));
+}
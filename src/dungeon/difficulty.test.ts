@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateDungeon,
+  generateClues,
+  calculatePar,
+  cluesNeededToSolve,
+  DIFFICULTIES,
+  DIFFICULTY_PRESETS,
+  DEFAULT_GENERATOR_OPTIONS,
+} from './index';
+
+describe('difficulty presets', () => {
+  const seeds = ['practice-a', 'practice-b', 'practice-c', '2026-03-01', '2026-07-04'];
+
+  it('normal preset matches the daily puzzle exactly', () => {
+    const preset = DIFFICULTY_PRESETS.normal;
+    const daily = generateDungeon('2026-02-05');
+    const tiered = generateDungeon('2026-02-05', preset.generator);
+    expect(tiered).toEqual(daily);
+    expect(generateClues(tiered, '2026-02-05', preset.clues)).toEqual(generateClues(daily, '2026-02-05'));
+  });
+
+  it('presets grow from easy to deep', () => {
+    const roomCounts = DIFFICULTIES.map((tier) => {
+      const options = { ...DEFAULT_GENERATOR_OPTIONS, ...DIFFICULTY_PRESETS[tier].generator };
+      return options.minRooms;
+    });
+    expect([...roomCounts].sort((a, b) => a - b)).toEqual(roomCounts);
+  });
+
+  for (const tier of DIFFICULTIES) {
+    describe(tier, () => {
+      const preset = DIFFICULTY_PRESETS[tier];
+      const options = { ...DEFAULT_GENERATOR_OPTIONS, ...preset.generator };
+
+      it.each(seeds)('places the treasure within the tier distance range for seed %s', (seed) => {
+        const par = calculatePar(generateDungeon(seed, preset.generator));
+        expect(par).toBeGreaterThanOrEqual(options.minTreasureDistance);
+        expect(par).toBeLessThanOrEqual(options.maxTreasureDistance);
+      });
+
+      it.each(seeds)('produces solvable clues from the tier category mix for seed %s', (seed) => {
+        const dungeon = generateDungeon(seed, preset.generator);
+        const clues = generateClues(dungeon, seed, preset.clues);
+        expect(cluesNeededToSolve(dungeon, clues)).not.toBeNull();
+        for (const clue of clues.values()) {
+          expect(preset.clues.categories).toContain(clue.category);
+        }
+      });
+    });
+  }
+
+  it.each(seeds)('easy puzzles are solvable from the nearest clues for seed %s', (seed) => {
+    const preset = DIFFICULTY_PRESETS.easy;
+    const dungeon = generateDungeon(seed, preset.generator);
+    const needed = cluesNeededToSolve(dungeon, generateClues(dungeon, seed, preset.clues))!;
+    expect(needed).toBeLessThanOrEqual(preset.clues.maxCluesToSolve!);
+  });
+});
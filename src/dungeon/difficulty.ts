@@ -0,0 +1,75 @@
+import type { Difficulty, DifficultyPreset } from '../types';
+import { DEFAULT_CLUE_OPTIONS } from './clueGenerator';
+
+// Ordered from gentlest to hardest
+export const DIFFICULTIES: Difficulty[] = ['easy', 'normal', 'hard', 'deep'];
+
+export const DIFFICULTY_PRESETS: Record<Difficulty, DifficultyPreset> = {
+  // Small mine, short walk, clues that point the way
+  easy: {
+    id: 'easy',
+    label: 'Easy',
+    generator: {
+      minRooms: 8,
+      maxRooms: 10,
+      minExtraConnections: 2,
+      maxExtraConnections: 4,
+      minLoops: 1,
+      minTreasureDistance: 3,
+      maxTreasureDistance: 4,
+      minDeadEnds: 1,
+      maxDeadEnds: 2,
+    },
+    clues: {
+      categories: ['spatial', 'spatial', 'entrance', 'manhattan', 'exits', 'quadrant', 'dead-end'],
+      minCluesToSolve: 1,
+      maxCluesToSolve: 5,
+    },
+  },
+  // The daily puzzle
+  normal: {
+    id: 'normal',
+    label: 'Normal',
+    generator: {},
+    clues: DEFAULT_CLUE_OPTIONS,
+  },
+  // Bigger mine, more wrong turns, vaguer clues
+  hard: {
+    id: 'hard',
+    label: 'Hard',
+    generator: {
+      minRooms: 16,
+      maxRooms: 20,
+      minTreasureDistance: 6,
+      maxTreasureDistance: 8,
+      minDeadEnds: 4,
+      maxDeadEnds: 6,
+    },
+    clues: {
+      categories: ['exits', 'exits', 'spatial', 'manhattan', 'manhattan', 'entrance', 'negative', 'parity', 'quadrant'],
+      minCluesToSolve: 3,
+      maxCluesToSolve: null,
+    },
+  },
+  // Sprawling mine where every clue counts
+  deep: {
+    id: 'deep',
+    label: 'Deep',
+    generator: {
+      minRooms: 22,
+      maxRooms: 26,
+      minExtraConnections: 4,
+      maxExtraConnections: 8,
+      minLoops: 3,
+      minTreasureDistance: 8,
+      maxTreasureDistance: 10,
+      minDeadEnds: 6,
+      maxDeadEnds: 8,
+    },
+    clues: {
+      categories: ['exits', 'exits', 'exits', 'spatial', 'manhattan', 'entrance', 'negative', 'negative', 'parity', 'dead-end'],
+      minCluesToSolve: 4,
+      maxCluesToSolve: null,
+    },
+  },
+};
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { scoreDifficulty, MAX_PICKAXES } from './difficultyScore';
+import { createClue, generatePuzzle } from './index';
+import type { Clue, Dungeon } from '../types';
+
+// Entrance 0 opens onto a corridor 1-2-3 to the gem and a dead end 4;
+// room 5 hangs diagonally off room 2
+const dungeon: Dungeon = {
+  rooms: [
+    { id: 0, x: 0, y: 0, connections: [1, 4] },
+    { id: 1, x: 1, y: 0, connections: [0, 2] },
+    { id: 2, x: 2, y: 0, connections: [1, 3, 5] },
+    { id: 3, x: 3, y: 0, connections: [2] },
+    { id: 4, x: 0, y: 1, connections: [0] },
+    { id: 5, x: 3, y: 1, connections: [2] },
+  ],
+  entranceId: 0,
+  treasureId: 3,
+  dragonId: null,
+};
+
+const clues = new Map<number, Clue>([
+  [0, createClue({ category: 'spatial', axis: 'x', sign: 1 })],
+  [1, createClue({ category: 'manhattan', distance: 2 })],
+]);
+
+describe('scoreDifficulty', () => {
+  it('reports what the score is made of', () => {
+    expect(scoreDifficulty({ dungeon, clues })).toEqual({
+      pickaxes: 1,
+      cluesToSolve: 2,
+      entranceBranches: 2,
+      deadEnds: 2,
+      dragonThreat: 'none',
+    });
+  });
+
+  it('has no clue count when the clues never isolate the gem', () => {
+    expect(scoreDifficulty({ dungeon, clues: new Map() }).cluesToSolve).toBeNull();
+  });
+
+  it('notices a dragon beside or on the shortest walk', () => {
+    expect(scoreDifficulty({ dungeon: { ...dungeon, dragonId: 5 }, clues }).dragonThreat).toBe('beside-route');
+    expect(scoreDifficulty({ dungeon: { ...dungeon, dragonId: 2 }, clues }).dragonThreat).toBe('on-route');
+  });
+
+  it('rates harder tiers higher', () => {
+    const easy = scoreDifficulty(generatePuzzle('2026-03-01', 'easy')).pickaxes;
+    const deep = scoreDifficulty(generatePuzzle('2026-03-01', 'deep')).pickaxes;
+    expect(easy).toBeLessThan(deep);
+    expect(deep).toBeLessThanOrEqual(MAX_PICKAXES);
+  });
+});
@@ -0,0 +1,40 @@
+import type { DifficultyScore, Puzzle } from '../types';
+import { calculateDistances } from './graphUtils';
+import { cluesNeededToSolve } from './clueGenerator';
+
+export const MAX_PICKAXES = 5;
+
+// Points at which each extra pickaxe is awarded; a typical daily lands on three
+const PICKAXE_THRESHOLDS = [2.5, 4, 5.5, 7];
+
+// Rate a puzzle from its layout and clues: every clue beyond the first it
+// takes to isolate the gem, every extra way out of the entrance, every dead
+// end to wander into, and a dragon lurking on or beside the shortest walk
+export function scoreDifficulty({ dungeon, clues }: Pick<Puzzle, 'dungeon' | 'clues'>): DifficultyScore {
+  const { rooms, entranceId, treasureId, dragonId } = dungeon;
+  const cluesToSolve = cluesNeededToSolve(dungeon, clues);
+  const entranceBranches = rooms.find((r) => r.id === entranceId)!.connections.length;
+  const deadEnds = rooms.filter((r) => r.connections.length === 1 && r.id !== entranceId && r.id !== treasureId).length;
+
+  let dragonThreat: DifficultyScore['dragonThreat'] = 'none';
+  if (dragonId !== null) {
+    const fromEntrance = calculateDistances(rooms, entranceId);
+    const fromTreasure = calculateDistances(rooms, treasureId);
+    const shortest = fromEntrance.get(treasureId)!;
+    const onShortestWalk = (id: number) => fromEntrance.get(id)! + fromTreasure.get(id)! === shortest;
+    if (onShortestWalk(dragonId)) {
+      dragonThreat = 'on-route';
+    } else if (rooms.some((r) => onShortestWalk(r.id) && r.connections.includes(dragonId))) {
+      dragonThreat = 'beside-route';
+    }
+  }
+
+  const points =
+    ((cluesToSolve ?? clues.size + 1) - 1) +
+    (entranceBranches - 2) * 0.5 +
+    deadEnds * 0.4 +
+    (dragonThreat === 'on-route' ? 3 : dragonThreat === 'beside-route' ? 1.5 : 0);
+  const pickaxes = 1 + PICKAXE_THRESHOLDS.filter((threshold) => points > threshold).length;
+
+  return { pickaxes, cluesToSolve, entranceBranches, deadEnds, dragonThreat };
+}
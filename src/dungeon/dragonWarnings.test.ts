@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { getSmokyRoomIds, getSafeRoomIds, isDragonAvoidable } from './dragonWarnings';
+import { createClue, generatePuzzle } from './index';
+import type { Clue, Dungeon } from '../types';
+
+// 3x2 ring: 0-1-2 on top, 3-4-5 below, joined at both ends
+const rooms = [
+  { id: 0, x: 0, y: 0, connections: [1, 3] },
+  { id: 1, x: 1, y: 0, connections: [0, 2] },
+  { id: 2, x: 2, y: 0, connections: [1, 5] },
+  { id: 3, x: 0, y: 1, connections: [0, 4] },
+  { id: 4, x: 1, y: 1, connections: [3, 5] },
+  { id: 5, x: 2, y: 1, connections: [2, 4] },
+];
+
+const dungeon: Dungeon = { rooms, entranceId: 0, treasureId: 5, dragonId: 2 };
+
+const clues = new Map<number, Clue>([
+  [0, createClue({ category: 'spatial', axis: 'x', sign: 1 })],
+  [1, createClue({ category: 'exits', exitCount: 2 })],
+  [3, createClue({ category: 'spatial', axis: 'y', sign: 0 })],
+  [4, createClue({ category: 'spatial', axis: 'x', sign: 1 })],
+]);
+
+describe('getSmokyRoomIds', () => {
+  it('marks every room connected to the dragon', () => {
+    expect(getSmokyRoomIds(dungeon)).toEqual(new Set([1, 5]));
+  });
+
+  it('is empty without a dragon', () => {
+    expect(getSmokyRoomIds({ ...dungeon, dragonId: null })).toEqual(new Set());
+  });
+});
+
+describe('getSafeRoomIds', () => {
+  it('stops exploring past rooms that smell of smoke', () => {
+    expect(getSafeRoomIds(rooms, 0, 5, 2)).toEqual(new Set([0, 1, 3, 4, 5]));
+  });
+
+  it('leaves only the entrance when the entrance itself smells of smoke', () => {
+    expect(getSafeRoomIds(rooms, 0, 5, 1)).toEqual(new Set([0]));
+  });
+});
+
+describe('isDragonAvoidable', () => {
+  it('holds when safe rooms reach the treasure and their clues isolate it', () => {
+    expect(isDragonAvoidable(dungeon, clues)).toBe(true);
+  });
+
+  it('fails when smoke at the entrance leaves every exit a gamble', () => {
+    expect(isDragonAvoidable({ ...dungeon, dragonId: 1 }, clues)).toBe(false);
+  });
+
+  it('fails when the clues in safe rooms leave the treasure ambiguous', () => {
+    const partial = new Map([...clues].filter(([id]) => id !== 3));
+    expect(isDragonAvoidable(dungeon, partial)).toBe(false);
+  });
+
+  it('always holds without a dragon', () => {
+    expect(isDragonAvoidable({ ...dungeon, dragonId: null }, new Map())).toBe(true);
+  });
+
+  it('holds for generated puzzles at every difficulty', () => {
+    for (const tier of ['easy', 'normal', 'hard', 'deep'] as const) {
+      for (let i = 0; i < 10; i++) {
+        const puzzle = generatePuzzle(`dragon-${tier}-${i}`, tier);
+        expect(isDragonAvoidable(puzzle.dungeon, puzzle.clues)).toBe(true);
+      }
+    }
+  });
+});
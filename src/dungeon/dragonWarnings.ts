@@ -0,0 +1,51 @@
+import type { Clue, Dungeon, Room } from '../types';
+import { roomMatchesClue } from './clueGenerator';
+
+// Rooms connected to the dragon's lair, where the player smells smoke
+export function getSmokyRoomIds(dungeon: Dungeon): Set<number> {
+  const { rooms, dragonId } = dungeon;
+  if (dragonId === null) return new Set();
+  return new Set(rooms.filter((r) => r.id !== dragonId && r.connections.includes(dragonId)).map((r) => r.id));
+}
+
+// Rooms a careful player can enter knowing the dragon isn't there: the
+// entrance, plus every neighbor of a reachable room that smells no smoke.
+// The treasure ends the game, so nothing is explored beyond it.
+export function getSafeRoomIds(rooms: Room[], entranceId: number, treasureId: number, dragonId: number | null): Set<number> {
+  const smoky = new Set(
+    dragonId === null ? [] : rooms.filter((r) => r.connections.includes(dragonId)).map((r) => r.id)
+  );
+  const safe = new Set<number>([entranceId]);
+  const queue = [entranceId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === treasureId || smoky.has(current)) continue;
+    const currentRoom = rooms.find((r) => r.id === current)!;
+    for (const neighborId of currentRoom.connections) {
+      if (!safe.has(neighborId)) {
+        safe.add(neighborId);
+        queue.push(neighborId);
+      }
+    }
+  }
+  return safe;
+}
+
+// A careful player never has to gamble: the treasure is reachable through
+// safe rooms, and the clues in those rooms alone isolate it
+export function isDragonAvoidable(dungeon: Dungeon, clues: Map<number, Clue>): boolean {
+  const { rooms, entranceId, treasureId, dragonId } = dungeon;
+  if (dragonId === null) return true;
+
+  const safe = getSafeRoomIds(rooms, entranceId, treasureId, dragonId);
+  if (!safe.has(treasureId)) return false;
+
+  let candidates = rooms;
+  for (const roomId of safe) {
+    const clue = clues.get(roomId);
+    if (!clue) continue;
+    const clueRoom = rooms.find((r) => r.id === roomId)!;
+    candidates = candidates.filter((c) => roomMatchesClue(c, clue, clueRoom, rooms));
+  }
+  return candidates.length === 1 && candidates[0].id === treasureId;
+}
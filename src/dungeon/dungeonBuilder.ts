@@ -1,8 +1,15 @@
-import type { Room } from '../types';
+import type { GeneratorOptions, Room } from '../types';
 import { calculateDistances, areGridAdjacent, getMaxDistance, isConnectedWithoutEdge } from './graphUtils';
+import { randomInRange } from './seedRandom';
 
-// Ensure distance to farthest room is within range [minDist, maxDist]
-export function ensureDistanceRange(rooms: Room[], entranceId: number, minDist: number, maxDist: number, usedPositions?: Set<string>): void {
+// Ensure distance to farthest room is within the options' treasure distance range
+export function ensureDistanceRange(
+  rooms: Room[],
+  entranceId: number,
+  options: Pick<GeneratorOptions, 'minTreasureDistance' | 'maxTreasureDistance'>,
+  usedPositions?: Set<string>
+): void {
+  const { minTreasureDistance: minDist, maxTreasureDistance: maxDist } = options;
   const maxAttempts = 20;
 
   // First, increase distance if too short (remove shortcuts, but protect entrance edges)
@@ -112,9 +119,10 @@ export function addDeadEnds(
   entranceId: number,
   treasureId: number,
   random: () => number,
-  usedPositions: Set<string>
+  usedPositions: Set<string>,
+  options: Pick<GeneratorOptions, 'minDeadEnds' | 'maxDeadEnds'>
 ): void {
-  const deadEndCount = Math.floor(random() * 3) + 3; // 3-5 dead ends
+  const deadEndCount = randomInRange(random, options.minDeadEnds, options.maxDeadEnds);
 
   // Find rooms on or near optimal path
   const distances = calculateDistances(rooms, entranceId);
@@ -178,13 +186,14 @@ export function addDeadEnds(
   }
 }
 
-// Ensure entrance room has at least minConnections exits
+// Ensure entrance room has at least minEntranceExits exits
 export function ensureEntranceConnections(
   rooms: Room[],
   entranceId: number,
   usedPositions: Set<string>,
-  minConnections: number
+  options: Pick<GeneratorOptions, 'minEntranceExits'>
 ): void {
+  const minConnections = options.minEntranceExits;
   const entrance = rooms.find(r => r.id === entranceId)!;
 
   while (entrance.connections.length < minConnections) {
@@ -2,9 +2,11 @@ import { describe, it, expect } from 'vitest';
 import {
   generateDungeon,
   calculateDistances,
+  getShortestRoute,
   calculatePar,
   areGridAdjacent,
   getPuzzleNumber,
+  DEFAULT_GENERATOR_OPTIONS,
 } from './index';
 import type { Room } from '../types';
 
@@ -52,6 +54,37 @@ describe('areGridAdjacent', () => {
   });
 });
 
+describe('getShortestRoute', () => {
+  // Square 0-1-3 / 0-2-3 with a dead end 4 off room 3
+  const rooms: Room[] = [
+    { id: 0, x: 0, y: 0, connections: [1, 2] },
+    { id: 1, x: 1, y: 0, connections: [0, 3] },
+    { id: 2, x: 0, y: 1, connections: [0, 3] },
+    { id: 3, x: 1, y: 1, connections: [1, 2, 4] },
+    { id: 4, x: 2, y: 1, connections: [3] },
+  ];
+
+  it('walks room by room from start to target', () => {
+    expect(getShortestRoute(rooms, 0, 4)).toEqual([0, 1, 3, 4]);
+  });
+
+  it('is as long as the distance between the rooms', () => {
+    const dungeon = generateDungeon('2026-03-01');
+    const route = getShortestRoute(dungeon.rooms, dungeon.entranceId, dungeon.treasureId);
+    expect(route.length - 1).toBe(calculatePar(dungeon));
+    expect(route.at(-1)).toBe(dungeon.treasureId);
+  });
+
+  it('is empty when the target is unreachable', () => {
+    expect(getShortestRoute([...rooms, { id: 5, x: 5, y: 5, connections: [] }], 0, 5)).toEqual([]);
+  });
+
+  it('goes around a blocked room on the shortest path', () => {
+    expect(getShortestRoute(rooms, 0, 4, 1)).toEqual([0, 2, 3, 4]);
+    expect(getShortestRoute(rooms, 0, 4, 3)).toEqual([]);
+  });
+});
+
 describe('generateDungeon', () => {
   // Test with multiple seeds to catch edge cases
   const testSeeds = [
@@ -142,7 +175,7 @@ describe('generateDungeon', () => {
       for (const seed of testSeeds) {
         const dungeon = generateDungeon(seed);
         // BFS from entrance to treasure, excluding dragon room
-        const visited = new Set<number>([dungeon.dragonId]);
+        const visited = new Set<number>([dungeon.dragonId!]);
         const queue = [dungeon.entranceId];
         visited.add(dungeon.entranceId);
         let reachable = false;
@@ -233,6 +266,58 @@ describe('generateDungeon', () => {
   });
 });
 
+describe('generateDungeon options', () => {
+  const seeds = ['2026-01-01', '2026-06-15', 'test-seed-1', 'dev-12345'];
+
+  it('uses default options when none are given', () => {
+    const implicit = generateDungeon('options-seed');
+    const explicit = generateDungeon('options-seed', DEFAULT_GENERATOR_OPTIONS);
+    expect(explicit).toEqual(implicit);
+  });
+
+  it.each(seeds)('omits the dragon when hasDragon is false for seed %s', (seed) => {
+    const dungeon = generateDungeon(seed, { hasDragon: false });
+    expect(dungeon.dragonId).toBeNull();
+  });
+
+  it.each(seeds)('respects a larger room range for seed %s', (seed) => {
+    const dungeon = generateDungeon(seed, { minRooms: 22, maxRooms: 24 });
+    expect(dungeon.rooms.length).toBeGreaterThanOrEqual(22);
+  });
+
+  it.each(seeds)('respects a custom treasure distance range for seed %s', (seed) => {
+    const dungeon = generateDungeon(seed, { minTreasureDistance: 3, maxTreasureDistance: 4 });
+    const par = calculatePar(dungeon);
+    expect(par).toBeGreaterThanOrEqual(3);
+    expect(par).toBeLessThanOrEqual(4);
+  });
+
+  it.each(seeds)('adds no dead ends when the dead-end range is zero for seed %s', (seed) => {
+    const withDeadEnds = generateDungeon(seed);
+    const without = generateDungeon(seed, { minDeadEnds: 0, maxDeadEnds: 0 });
+    // Dead ends are added last, so the same seed's layout with them is the
+    // layout without them plus one-tunnel rooms appended to the end
+    const layoutCount = without.rooms.length;
+    expect(withDeadEnds.entranceId).toBe(without.entranceId);
+    expect(withDeadEnds.treasureId).toBe(without.treasureId);
+    for (const room of without.rooms) {
+      const counterpart = withDeadEnds.rooms[room.id];
+      expect({ x: counterpart.x, y: counterpart.y }).toEqual({ x: room.x, y: room.y });
+      expect(counterpart.connections.filter(id => id < layoutCount)).toEqual(room.connections);
+    }
+    for (const deadEnd of withDeadEnds.rooms.slice(layoutCount)) {
+      expect(deadEnd.connections).toHaveLength(1);
+      expect(deadEnd.connections[0]).toBeLessThan(layoutCount);
+    }
+  });
+
+  it.each(seeds)('honours a higher minimum of entrance exits for seed %s', (seed) => {
+    const dungeon = generateDungeon(seed, { minEntranceExits: 4 });
+    const entrance = dungeon.rooms.find(r => r.id === dungeon.entranceId)!;
+    expect(entrance.connections.length).toBeGreaterThanOrEqual(4);
+  });
+});
+
 describe('calculateDistances', () => {
   it('returns 0 for start room', () => {
     const rooms: Room[] = [
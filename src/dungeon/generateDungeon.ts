@@ -1,15 +1,33 @@
-import type { Dungeon, Room } from '../types';
-import { createSeededRandom, dateToSeed } from './seedRandom';
-import { calculateDistances, areGridAdjacent, ensureLoops } from './graphUtils';
+import type { Dungeon, GeneratorOptions, Room } from '../types';
+import { createSeededRandom, dateToSeed, randomInRange } from './seedRandom';
+import { calculateDistances, areGridAdjacent, ensureLoops, isReachableWithout } from './graphUtils';
 import { ensureDistanceRange, addDeadEnds, ensureEntranceConnections } from './dungeonBuilder';
+import { getSafeRoomIds } from './dragonWarnings';
+
+// Default tuning used for the daily puzzle
+export const DEFAULT_GENERATOR_OPTIONS: GeneratorOptions = {
+  minRooms: 12,
+  maxRooms: 16,
+  minExtraConnections: 3,
+  maxExtraConnections: 6,
+  minLoops: 2,
+  minEntranceExits: 3,
+  minTreasureDistance: 5,
+  maxTreasureDistance: 7,
+  minDeadEnds: 3,
+  maxDeadEnds: 5,
+  hasDragon: true,
+};
 
 // Generate dungeon from date seed
-export function generateDungeon(dateString: string): Dungeon {
+export function generateDungeon(dateString: string, overrides: Partial<GeneratorOptions> = {}): Dungeon {
+  const options: GeneratorOptions = { ...DEFAULT_GENERATOR_OPTIONS, ...overrides };
+  const { minTreasureDistance: minDist, maxTreasureDistance: maxDist } = options;
   const seed = dateToSeed(dateString);
   const random = createSeededRandom(seed);
 
-  // Determine room count (12-16 to ensure enough distance for treasure)
-  const roomCount = Math.floor(random() * 5) + 12;
+  // Determine room count (enough rooms to reach the treasure distance)
+  const roomCount = randomInRange(random, options.minRooms, options.maxRooms);
 
   // Generate rooms using growth algorithm - each new room is adjacent to existing
   // This guarantees all connections are grid-adjacent
@@ -94,8 +112,8 @@ export function generateDungeon(dateString: string): Dungeon {
     }
   }
 
-  // Add extra connections for variety and multiple route options (3-6 connections)
-  const extraConnections = Math.floor(random() * 4) + 3;
+  // Add extra connections for variety and multiple route options
+  const extraConnections = randomInRange(random, options.minExtraConnections, options.maxExtraConnections);
   for (let i = 0; i < extraConnections; i++) {
     const fromId = Math.floor(random() * roomCount);
     const candidates = rooms.filter((r) => {
@@ -111,26 +129,26 @@ export function generateDungeon(dateString: string): Dungeon {
     }
   }
 
-  // Ensure at least 2 loops exist for circular paths
-  ensureLoops(rooms, 2);
+  // Ensure minimum loops exist for circular paths
+  ensureLoops(rooms, options);
 
   // Entrance is room 0
   const entranceId = 0;
 
-  // Ensure entrance has at least 3 exits for an interesting opening
-  ensureEntranceConnections(rooms, entranceId, usedPositions, 3);
+  // Ensure entrance has enough exits for an interesting opening
+  ensureEntranceConnections(rooms, entranceId, usedPositions, options);
 
-  // Ensure treasure distance is within 5-7 range
-  ensureDistanceRange(rooms, entranceId, 5, 7, usedPositions);
+  // Ensure treasure distance is within the configured range
+  ensureDistanceRange(rooms, entranceId, options, usedPositions);
 
-  // Find treasure room: must be at least 5 rooms away from entrance (par 5+)
+  // Find treasure room: must be at least minDist rooms away from entrance
   const distances = calculateDistances(rooms, entranceId);
 
-  // Filter for rooms in valid distance range (5-7 steps)
+  // Filter for rooms in valid distance range
   const validTreasureRooms = rooms.filter((r) => {
     if (r.id === entranceId) return false;
     const dist = distances.get(r.id);
-    return dist !== undefined && dist >= 5 && dist <= 7;
+    return dist !== undefined && dist >= minDist && dist <= maxDist;
   });
 
   // Sort valid rooms by distance (descending) - farthest first
@@ -143,7 +161,7 @@ export function generateDungeon(dateString: string): Dungeon {
   let treasureRoom: Room;
 
   if (validTreasureRooms.length > 0) {
-    // Pick randomly from valid rooms (all are in 5-7 range)
+    // Pick randomly from valid rooms (all are in range)
     treasureRoom = validTreasureRooms[Math.floor(random() * validTreasureRooms.length)];
   } else {
     // Fallback: pick room closest to target range
@@ -151,52 +169,47 @@ export function generateDungeon(dateString: string): Dungeon {
     allOtherRooms.sort((a, b) => {
       const distA = distances.get(a.id) || 0;
       const distB = distances.get(b.id) || 0;
-      // Prefer rooms closer to the 5-7 range
-      const scoreA = distA < 5 ? 5 - distA : distA > 7 ? distA - 7 : 0;
-      const scoreB = distB < 5 ? 5 - distB : distB > 7 ? distB - 7 : 0;
+      // Prefer rooms closer to the target range
+      const scoreA = distA < minDist ? minDist - distA : distA > maxDist ? distA - maxDist : 0;
+      const scoreB = distB < minDist ? minDist - distB : distB > maxDist ? distB - maxDist : 0;
       return scoreA - scoreB;
     });
     treasureRoom = allOtherRooms[0];
   }
 
   // Add dead-end branches off the optimal path for misleading wrong turns
-  addDeadEnds(rooms, entranceId, treasureRoom.id, random, usedPositions);
+  addDeadEnds(rooms, entranceId, treasureRoom.id, random, usedPositions, options);
+
+  if (!options.hasDragon) {
+    return { rooms, entranceId, treasureId: treasureRoom.id, dragonId: null };
+  }
 
   // Place dragon room near treasure's BFS depth (tempting wrong choice)
-  // Dragon must NOT block all paths to treasure (must be bypassable)
+  // Dragon must NOT block all paths to treasure (must be bypassable), and
+  // its smoke must leave a safe route for a careful player where possible
   const dragonDistances = calculateDistances(rooms, entranceId);
   const treasureDist = dragonDistances.get(treasureRoom.id) || 0;
-  const isBypassable = (candidateId: number): boolean => {
-    // BFS from entrance to treasure, excluding the candidate room
-    const visited = new Set<number>([candidateId]);
-    const queue = [entranceId];
-    visited.add(entranceId);
-    while (queue.length > 0) {
-      const current = queue.shift()!;
-      if (current === treasureRoom.id) return true;
-      const currentRoom = rooms.find(r => r.id === current)!;
-      for (const neighborId of currentRoom.connections) {
-        if (!visited.has(neighborId)) {
-          visited.add(neighborId);
-          queue.push(neighborId);
-        }
-      }
-    }
-    return false;
-  };
+  const isBypassable = (candidateId: number): boolean =>
+    isReachableWithout(rooms, entranceId, treasureRoom.id, candidateId);
+  const isAvoidable = (candidateId: number): boolean =>
+    getSafeRoomIds(rooms, entranceId, treasureRoom.id, candidateId).has(treasureRoom.id);
+  const isEligible = (r: Room): boolean => r.id !== entranceId && r.id !== treasureRoom.id;
   const dragonCandidatesNear = rooms.filter(r => {
-    if (r.id === entranceId || r.id === treasureRoom.id) return false;
-    if (!isBypassable(r.id)) return false;
+    if (!isEligible(r) || !isAvoidable(r.id)) return false;
     const d = dragonDistances.get(r.id) || 0;
     return d >= treasureDist - 1 && d <= treasureDist + 1;
   });
   const dragonCandidatesAny = dragonCandidatesNear.length > 0
     ? dragonCandidatesNear
-    : rooms.filter(r => r.id !== entranceId && r.id !== treasureRoom.id && isBypassable(r.id));
-  // Fallback: if every room is a chokepoint, allow any non-entrance/non-treasure room
-  const dragonCandidates = dragonCandidatesAny.length > 0
+    : rooms.filter(r => isEligible(r) && isAvoidable(r.id));
+  // Fallbacks: any bypassable room, then (if every room is a chokepoint) any
+  // non-entrance/non-treasure room
+  const dragonCandidatesBypassable = dragonCandidatesAny.length > 0
     ? dragonCandidatesAny
-    : rooms.filter(r => r.id !== entranceId && r.id !== treasureRoom.id);
+    : rooms.filter(r => isEligible(r) && isBypassable(r.id));
+  const dragonCandidates = dragonCandidatesBypassable.length > 0
+    ? dragonCandidatesBypassable
+    : rooms.filter(isEligible);
   const dragonRoom = dragonCandidates[Math.floor(random() * dragonCandidates.length)];
 
   return {
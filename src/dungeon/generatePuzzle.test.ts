@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { generatePuzzle, variantSeed } from './generatePuzzle';
+import { generateDungeon, generateClues, validateDungeon, hasErrors } from './index';
+
+describe('generatePuzzle', () => {
+  it('uses the seed as-is when its dungeon is solvable', () => {
+    const puzzle = generatePuzzle('2026-02-05');
+    expect(puzzle.seed).toBe('2026-02-05');
+    expect(puzzle.dungeon).toEqual(generateDungeon('2026-02-05'));
+    expect(puzzle.clues).toEqual(generateClues(puzzle.dungeon, '2026-02-05'));
+  });
+
+  it('names regenerated variants after the original seed', () => {
+    expect(variantSeed('2026-02-05', 0)).toBe('2026-02-05');
+    expect(variantSeed('2026-02-05', 2)).toBe('2026-02-05#2');
+  });
+
+  // Every daily from launch through three years out must ship with a unique answer
+  it('produces a valid, uniquely solvable daily for every date over three years', () => {
+    const launch = new Date('2026-02-05');
+    const failures: string[] = [];
+    for (let day = 0; day < 365 * 3; day++) {
+      const date = new Date(launch.getTime() + day * 86_400_000).toISOString().split('T')[0];
+      const puzzle = generatePuzzle(date);
+      const violations = validateDungeon(puzzle.dungeon, puzzle.clues);
+      if (hasErrors(violations)) failures.push(date);
+    }
+    expect(failures).toEqual([]);
+  }, 60_000);
+});
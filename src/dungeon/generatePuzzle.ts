@@ -0,0 +1,36 @@
+import type { Clue, Difficulty, Puzzle } from '../types';
+import { generateDungeon } from './generateDungeon';
+import { generateClues, ClueGenerationError } from './clueGenerator';
+import { DIFFICULTY_PRESETS } from './difficulty';
+import { isDragonAvoidable } from './dragonWarnings';
+
+const MAX_VARIANTS = 5;
+
+// Seed for the nth regenerated variant (variant 0 is the seed itself)
+export function variantSeed(seed: string, variant: number): string {
+  return variant === 0 ? seed : `${seed}#${variant}`;
+}
+
+// Generate a dungeon with clues that isolate the treasure and a dragon a
+// careful player can always avoid. If the dungeon for a seed cannot meet
+// both, fall back to regenerated variants.
+export function generatePuzzle(seed: string, difficulty: Difficulty = 'normal'): Puzzle {
+  const preset = DIFFICULTY_PRESETS[difficulty];
+
+  for (let variant = 0; variant < MAX_VARIANTS; variant++) {
+    const puzzleSeed = variantSeed(seed, variant);
+    const dungeon = generateDungeon(puzzleSeed, preset.generator);
+    let clues: Map<number, Clue>;
+    try {
+      clues = generateClues(dungeon, puzzleSeed, preset.clues);
+    } catch (error) {
+      if (!(error instanceof ClueGenerationError)) throw error;
+      continue;
+    }
+    if (isDragonAvoidable(dungeon, clues)) {
+      return { seed: puzzleSeed, dungeon, clues };
+    }
+  }
+
+  throw new ClueGenerationError(`No solvable puzzle within ${MAX_VARIANTS} variants of seed "${seed}"`);
+}
@@ -1,4 +1,4 @@
-import type { Room } from '../types';
+import type { GeneratorOptions, Room } from '../types';
 
 // BFS to calculate distances from a starting room
 export function calculateDistances(rooms: Room[], startId: number): Map<number, number> {
@@ -22,6 +22,52 @@ export function calculateDistances(rooms: Room[], startId: number): Map<number,
   return distances;
 }
 
+// One shortest route from start to target, both ends included, that never
+// enters blockedId (the dragon's lair). Empty when the target can't be reached.
+export function getShortestRoute(
+  rooms: Room[],
+  startId: number,
+  targetId: number,
+  blockedId: number | null = null
+): number[] {
+  const openRooms = rooms
+    .filter((r) => r.id !== blockedId)
+    .map((r) => ({ ...r, connections: r.connections.filter((id) => id !== blockedId) }));
+  const distances = calculateDistances(openRooms, targetId);
+  if (!distances.has(startId)) return [];
+  const route = [startId];
+  let currentId = startId;
+  while (currentId !== targetId) {
+    const currentRoom = openRooms.find((r) => r.id === currentId)!;
+    currentId = currentRoom.connections.find((id) => distances.get(id) === distances.get(currentId)! - 1)!;
+    route.push(currentId);
+  }
+  return route;
+}
+
+// Check if target is reachable from start without passing through blockedId
+export function isReachableWithout(
+  rooms: Room[],
+  startId: number,
+  targetId: number,
+  blockedId: number
+): boolean {
+  const visited = new Set<number>([blockedId, startId]);
+  const queue = [startId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === targetId) return true;
+    const currentRoom = rooms.find((r) => r.id === current)!;
+    for (const neighborId of currentRoom.connections) {
+      if (!visited.has(neighborId)) {
+        visited.add(neighborId);
+        queue.push(neighborId);
+      }
+    }
+  }
+  return false;
+}
+
 // Check if two rooms are grid-adjacent (Manhattan distance 1 or 2)
 // Distance 2 allowed only for diagonal connections (different x AND y)
 export function areGridAdjacent(room1: Room, room2: Room): boolean {
@@ -59,7 +105,8 @@ export function countLoops(rooms: Room[]): number {
 }
 
 // Ensure minimum number of loops exist by connecting rooms that share neighbors
-export function ensureLoops(rooms: Room[], minLoops: number): void {
+export function ensureLoops(rooms: Room[], options: Pick<GeneratorOptions, 'minLoops'>): void {
+  const { minLoops } = options;
   let currentLoops = countLoops(rooms);
 
   while (currentLoops < minLoops) {
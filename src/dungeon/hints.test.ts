@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { getHint, formatHint, describeDirection } from './hints';
+import { createClue } from './index';
+import type { Clue, Dungeon } from '../types';
+
+// Row of rooms 0-1-2-3 with a branch 1-4 below; treasure at 3, dragon at 4
+const dungeon: Dungeon = {
+  rooms: [
+    { id: 0, x: 0, y: 0, connections: [1] },
+    { id: 1, x: 1, y: 0, connections: [0, 2, 4] },
+    { id: 2, x: 2, y: 0, connections: [1, 3] },
+    { id: 3, x: 3, y: 0, connections: [2] },
+    { id: 4, x: 1, y: 1, connections: [1] },
+  ],
+  entranceId: 0,
+  treasureId: 3,
+  dragonId: 4,
+};
+
+const clues = new Map<number, Clue>([
+  [0, createClue({ category: 'exits', exitCount: 1 })],
+  [1, createClue({ category: 'spatial', axis: 'y', sign: 0 })],
+  [2, createClue({ category: 'manhattan', distance: 1 })],
+]);
+
+describe('getHint', () => {
+  it('tier 1 picks the collected clue that rules out the most rooms', () => {
+    // "1 exit" rules out room 2 and "same row" rules out room 4; the first wins the tie
+    const hint = getHint(dungeon, clues, [0, 1], 1, 1);
+    expect(hint).toEqual({ level: 1, kind: 'best-clue', roomId: 0, eliminated: 1 });
+  });
+
+  it('tier 2 prefers the closer of two equally telling unexplored clues', () => {
+    // Rooms 1 and 2 each rule out the dragon room from candidates {3, 4}
+    const hint = getHint(dungeon, clues, [0], 0, 2);
+    expect(hint).toEqual({ level: 2, kind: 'best-direction', roomId: 1, targetId: 1 });
+  });
+
+  it('tier 2 points at the first step towards the most telling unexplored clue', () => {
+    const telling = new Map(clues).set(2, createClue({ category: 'manhattan', distance: 1 }));
+    telling.set(1, createClue({ category: 'exits', exitCount: 1 }));
+    const hint = getHint(dungeon, telling, [0], 0, 2);
+    expect(hint).toEqual({ level: 2, kind: 'best-direction', roomId: 1, targetId: 2 });
+  });
+
+  it('tier 2 never routes through the dragon', () => {
+    const hint = getHint(dungeon, clues, [0, 1], 1, 2);
+    expect(hint?.kind === 'best-direction' && hint.roomId).toBe(2);
+  });
+
+  it('tier 3 lists the rooms that could still hold the gem', () => {
+    const hint = getHint(dungeon, clues, [0, 1], 1, 3);
+    expect(hint).toEqual({ level: 3, kind: 'candidates', roomIds: [3] });
+  });
+
+  it('returns null for unknown tiers', () => {
+    expect(getHint(dungeon, clues, [0], 0, 4)).toBeNull();
+  });
+});
+
+describe('formatHint', () => {
+  it('phrases each tier for the player', () => {
+    expect(formatHint({ level: 1, kind: 'best-clue', roomId: 0, eliminated: 1 }, dungeon, clues, 1))
+      .toBe('Your most useful clue: \u{1F517} The gem chamber has 1 exit');
+    expect(formatHint({ level: 2, kind: 'best-direction', roomId: 2, targetId: 2 }, dungeon, clues, 1))
+      .toBe('Head right for the most telling clue');
+    expect(formatHint({ level: 3, kind: 'candidates', roomIds: [2, 3] }, dungeon, clues, 1))
+      .toBe('The gem is one of these 2 rooms');
+  });
+
+  it('describes diagonal directions', () => {
+    expect(describeDirection(dungeon.rooms[0], dungeon.rooms[4])).toBe('down-right');
+  });
+});
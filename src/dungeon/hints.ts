@@ -0,0 +1,125 @@
+import type { Clue, Dungeon, Hint, Room } from '../types';
+import { roomMatchesClue } from './clueGenerator';
+import { getCandidateRoomIds } from './deduction';
+
+export const MAX_HINT_LEVEL = 3;
+
+// Number of candidate rooms a single clue rules out
+function countEliminated(candidates: Set<number>, clue: Clue, clueRoom: Room, rooms: Room[]): number {
+  let eliminated = 0;
+  for (const id of candidates) {
+    const candidate = rooms.find((r) => r.id === id)!;
+    if (!roomMatchesClue(candidate, clue, clueRoom, rooms)) eliminated++;
+  }
+  return eliminated;
+}
+
+// BFS from start that never enters blockedId; returns each room's predecessor
+function pathParents(rooms: Room[], startId: number, blockedId: number | null): Map<number, number> {
+  const parents = new Map<number, number>([[startId, startId]]);
+  const queue = [startId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const currentRoom = rooms.find((r) => r.id === current)!;
+    for (const neighborId of currentRoom.connections) {
+      if (neighborId === blockedId || parents.has(neighborId)) continue;
+      parents.set(neighborId, current);
+      queue.push(neighborId);
+    }
+  }
+  return parents;
+}
+
+// Tier 1: the collected clue that rules out the most rooms on its own
+function bestCollectedClue(dungeon: Dungeon, clues: Map<number, Clue>, visited: Set<number>): Hint | null {
+  const { rooms } = dungeon;
+  const unvisited = new Set(rooms.filter((r) => !visited.has(r.id)).map((r) => r.id));
+  let best: Hint | null = null;
+  for (const roomId of visited) {
+    const clue = clues.get(roomId);
+    if (!clue) continue;
+    const clueRoom = rooms.find((r) => r.id === roomId)!;
+    const eliminated = countEliminated(unvisited, clue, clueRoom, rooms);
+    if (!best || eliminated > best.eliminated) {
+      best = { level: 1, kind: 'best-clue', roomId, eliminated };
+    }
+  }
+  return best;
+}
+
+// Tier 2: the first step towards the unexplored clue that narrows the
+// candidates most (ties go to the closer room); never through the dragon
+function bestDirection(
+  dungeon: Dungeon,
+  clues: Map<number, Clue>,
+  visited: Set<number>,
+  currentRoomId: number
+): Hint | null {
+  const { rooms, dragonId } = dungeon;
+  const candidates = getCandidateRoomIds(dungeon, clues, visited);
+  const parents = pathParents(rooms, currentRoomId, dragonId);
+  const depth = (id: number): number => {
+    let steps = 0;
+    for (let at = id; at !== currentRoomId; at = parents.get(at)!) steps++;
+    return steps;
+  };
+
+  let best: { targetId: number; eliminated: number; distance: number } | null = null;
+  for (const [roomId, clue] of clues) {
+    if (visited.has(roomId) || !parents.has(roomId)) continue;
+    const clueRoom = rooms.find((r) => r.id === roomId)!;
+    const eliminated = countEliminated(candidates, clue, clueRoom, rooms);
+    const distance = depth(roomId);
+    if (!best || eliminated > best.eliminated || (eliminated === best.eliminated && distance < best.distance)) {
+      best = { targetId: roomId, eliminated, distance };
+    }
+  }
+  if (!best) return null;
+
+  let step = best.targetId;
+  while (parents.get(step) !== currentRoomId) step = parents.get(step)!;
+  return { level: 2, kind: 'best-direction', roomId: step, targetId: best.targetId };
+}
+
+// Hint for a given tier, computed from the current position and collected clues
+export function getHint(
+  dungeon: Dungeon,
+  clues: Map<number, Clue>,
+  visitedRoomIds: Iterable<number>,
+  currentRoomId: number,
+  level: number
+): Hint | null {
+  const visited = new Set(visitedRoomIds);
+  switch (level) {
+    case 1:
+      return bestCollectedClue(dungeon, clues, visited);
+    case 2:
+      return bestDirection(dungeon, clues, visited, currentRoomId);
+    case 3:
+      return { level: 3, kind: 'candidates', roomIds: [...getCandidateRoomIds(dungeon, clues, visited)] };
+    default:
+      return null;
+  }
+}
+
+// Relative direction from one room to another in the game's wording
+export function describeDirection(from: Room, to: Room): string {
+  const vertical = to.y < from.y ? 'up' : to.y > from.y ? 'down' : '';
+  const horizontal = to.x > from.x ? 'right' : to.x < from.x ? 'left' : '';
+  if (vertical && horizontal) return `${vertical}-${horizontal}`;
+  return vertical || horizontal || 'here';
+}
+
+export function formatHint(hint: Hint, dungeon: Dungeon, clues: Map<number, Clue>, currentRoomId: number): string {
+  const roomById = (id: number) => dungeon.rooms.find((r) => r.id === id)!;
+  switch (hint.kind) {
+    case 'best-clue': {
+      const clue = clues.get(hint.roomId)!;
+      return `Your most useful clue: ${clue.icon} ${clue.text}`;
+    }
+    case 'best-direction':
+      return `Head ${describeDirection(roomById(currentRoomId), roomById(hint.roomId))} for the most telling clue`;
+    case 'candidates':
+      return `The gem is one of these ${hint.roomIds.length} room${hint.roomIds.length !== 1 ? 's' : ''}`;
+  }
+}
@@ -1,5 +1,16 @@
-export { createSeededRandom, dateToSeed } from './seedRandom';
-export { getTodayDateString, getPuzzleNumber } from './dateUtils';
-export { calculateDistances, areGridAdjacent } from './graphUtils';
-export { generateDungeon, calculatePar } from './generateDungeon';
-export { generateClues, roomMatchesClue } from './clueGenerator';
+export { createSeededRandom, dateToSeed, randomInRange } from './seedRandom';
+export { getTodayDateString, getPuzzleNumber, getPreviousDateString, getArchiveDates, LAUNCH_DATE } from './dateUtils';
+export { calculateDistances, getShortestRoute, areGridAdjacent } from './graphUtils';
+export { generateDungeon, calculatePar, DEFAULT_GENERATOR_OPTIONS } from './generateDungeon';
+export { generateClues, roomMatchesClue, cluesNeededToSolve, DEFAULT_CLUE_OPTIONS, ClueGenerationError } from './clueGenerator';
+export { generatePuzzle, variantSeed } from './generatePuzzle';
+export { DIFFICULTIES, DIFFICULTY_PRESETS } from './difficulty';
+export { createClue, formatClueText, formatClueCompact, spatialArrow, spatialLabel, CLUE_ICONS } from './clueText';
+export { validateDungeon, hasErrors } from './validateDungeon';
+export { getCandidateRoomIds } from './deduction';
+export { analyzeGame } from './analysis';
+export { scoreDifficulty, MAX_PICKAXES } from './difficultyScore';
+export { solvePuzzle, calculateSolverPar, DEFAULT_SOLVER_OPTIONS } from './solver';
+export { getHint, formatHint, describeDirection, MAX_HINT_LEVEL } from './hints';
+export { getSmokyRoomIds, getSafeRoomIds, isDragonAvoidable } from './dragonWarnings';
+export { createPracticeSeed, pickPracticeSeed, formatPracticeSeed, parsePracticeSeed, practicePuzzleSeed } from './practiceSeeds';
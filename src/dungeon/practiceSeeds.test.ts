@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { createPracticeSeed, pickPracticeSeed, formatPracticeSeed, parsePracticeSeed, practicePuzzleSeed } from './practiceSeeds';
+import { generatePuzzle } from './generatePuzzle';
+import { validateDungeon, hasErrors } from './validateDungeon';
+import { DIFFICULTY_PRESETS } from './difficulty';
+import { createSeededRandom } from './seedRandom';
+
+describe('practice seeds', () => {
+  it('round-trips through the readable form', () => {
+    const seed = createPracticeSeed('hard', createSeededRandom(42));
+    const formatted = formatPracticeSeed(seed);
+    expect(formatted).toMatch(/^HARD-[2-9A-Z]{6}$/);
+    expect(parsePracticeSeed(formatted)).toEqual(seed);
+  });
+
+  it('accepts lowercase input and a missing tier', () => {
+    expect(parsePracticeSeed(' deep-k7f2qx ')).toEqual({ difficulty: 'deep', code: 'K7F2QX' });
+    expect(parsePracticeSeed('K7F2QX')).toEqual({ difficulty: 'normal', code: 'K7F2QX' });
+  });
+
+  it('rejects unknown tiers and malformed codes', () => {
+    expect(parsePracticeSeed('NIGHTMARE-K7F2QX')).toBeNull();
+    expect(parsePracticeSeed('HARD-K7F2Q')).toBeNull();
+    expect(parsePracticeSeed('HARD-K0F2QX')).toBeNull();
+    expect(parsePracticeSeed('')).toBeNull();
+  });
+});
+
+describe('pickPracticeSeed', () => {
+  it('hands out seeds whose dungeon passes validation', () => {
+    const random = createSeededRandom(7);
+    for (const difficulty of ['easy', 'deep'] as const) {
+      const seed = pickPracticeSeed(difficulty, random);
+      expect(seed.difficulty).toBe(difficulty);
+      const { dungeon, clues } = generatePuzzle(practicePuzzleSeed(seed), difficulty);
+      expect(hasErrors(validateDungeon(dungeon, clues, DIFFICULTY_PRESETS[difficulty].generator))).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,55 @@
+import type { Difficulty, PracticeSeed } from '../types';
+import { DIFFICULTIES, DIFFICULTY_PRESETS } from './difficulty';
+import { generatePuzzle } from './generatePuzzle';
+import { ClueGenerationError } from './clueGenerator';
+import { validateDungeon, hasErrors } from './validateDungeon';
+
+// No 0/O, 1/I/L, so codes survive being read aloud or retyped
+const CODE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+const CODE_LENGTH = 6;
+const MAX_ATTEMPTS = 5;
+const SEED_PATTERN = new RegExp(`^(?:([A-Z]+)-)?([${CODE_ALPHABET}]{${CODE_LENGTH}})$`);
+
+export function createPracticeSeed(difficulty: Difficulty, random: () => number = Math.random): PracticeSeed {
+  let code = '';
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[Math.floor(random() * CODE_ALPHABET.length)];
+  }
+  return { difficulty, code };
+}
+
+// Human-readable form used in links and share text, e.g. "HARD-K7F2QX"
+export function formatPracticeSeed(seed: PracticeSeed): string {
+  return `${seed.difficulty.toUpperCase()}-${seed.code}`;
+}
+
+// Parse a typed or linked seed; the tier is optional and defaults to Normal
+export function parsePracticeSeed(input: string): PracticeSeed | null {
+  const match = SEED_PATTERN.exec(input.trim().toUpperCase());
+  if (!match) return null;
+  const [, tier, code] = match;
+  const difficulty = tier ? DIFFICULTIES.find((d) => d.toUpperCase() === tier) : 'normal';
+  return difficulty ? { difficulty, code } : null;
+}
+
+// Seed string handed to the generator for a practice dungeon
+export function practicePuzzleSeed(seed: PracticeSeed): string {
+  return `practice-${seed.code}`;
+}
+
+// Fresh practice seeds are disposable, so skip any whose dungeon fails
+// validation; the seed handed out always opens the same dungeon
+export function pickPracticeSeed(difficulty: Difficulty, random: () => number = Math.random): PracticeSeed {
+  const { generator } = DIFFICULTY_PRESETS[difficulty];
+  let seed = createPracticeSeed(difficulty, random);
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    try {
+      const { dungeon, clues } = generatePuzzle(practicePuzzleSeed(seed), difficulty);
+      if (!hasErrors(validateDungeon(dungeon, clues, generator))) return seed;
+    } catch (error) {
+      if (!(error instanceof ClueGenerationError)) throw error;
+    }
+    seed = createPracticeSeed(difficulty, random);
+  }
+  return seed;
+}
@@ -18,3 +18,8 @@ export function dateToSeed(dateString: string): number {
   }
   return Math.abs(hash);
 }
+
+// Random integer in [min, max]
+export function randomInRange(random: () => number, min: number, max: number): number {
+  return Math.floor(random() * (max - min + 1)) + min;
+}
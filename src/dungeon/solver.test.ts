@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { solvePuzzle, calculateSolverPar } from './solver';
+import { calculatePar, createClue, generatePuzzle, getShortestRoute } from './index';
+import type { Clue, Dungeon } from '../types';
+
+// Corridor 0-1-2-3 with the gem at the far end
+const corridor: Dungeon = {
+  rooms: [
+    { id: 0, x: 0, y: 0, connections: [1] },
+    { id: 1, x: 1, y: 0, connections: [0, 2] },
+    { id: 2, x: 2, y: 0, connections: [1, 3] },
+    { id: 3, x: 3, y: 0, connections: [2] },
+  ],
+  entranceId: 0,
+  treasureId: 3,
+  dragonId: null,
+};
+
+describe('solvePuzzle', () => {
+  it('walks a corridor in the shortest number of moves', () => {
+    const result = solvePuzzle({ dungeon: corridor, clues: new Map() });
+    expect(result.expectedMoves).toBe(3);
+    expect(result.routes[0]).toEqual([0, 1, 2, 3]);
+    expect(result.stuckRuns).toBe(0);
+  });
+
+  it('gets stuck rather than risk a room next to smoke', () => {
+    const guarded = { ...corridor, dragonId: 1 };
+    const result = solvePuzzle({ dungeon: guarded, clues: new Map<number, Clue>() }, { runs: 4 });
+    expect(result.expectedMoves).toBeNull();
+    expect(result.stuckRuns).toBe(4);
+  });
+
+  it('reaches the gem on generated puzzles without meeting the dragon', () => {
+    for (const date of ['2026-02-01', '2026-02-13', '2026-03-01']) {
+      const puzzle = generatePuzzle(date);
+      const { expectedMoves, routes } = solvePuzzle(puzzle);
+      expect(expectedMoves).toBeGreaterThanOrEqual(calculatePar(puzzle.dungeon));
+      for (const route of routes) {
+        expect(route[0]).toBe(puzzle.dungeon.entranceId);
+        expect(route.at(-1)).toBe(puzzle.dungeon.treasureId);
+        expect(route).not.toContain(puzzle.dungeon.dragonId);
+      }
+    }
+  });
+
+  it('walks straight to the gem when the clues point the way', () => {
+    // Three rooms open off the entrance; the clue says the gem lies east
+    const crossroads: Dungeon = {
+      rooms: [
+        { id: 0, x: 0, y: 0, connections: [1, 3, 5] },
+        { id: 1, x: 1, y: 0, connections: [0, 2] },
+        { id: 2, x: 2, y: 0, connections: [1] },
+        { id: 3, x: -1, y: 0, connections: [0] },
+        { id: 5, x: 0, y: 1, connections: [0] },
+      ],
+      entranceId: 0,
+      treasureId: 2,
+      dragonId: null,
+    };
+    const clues = new Map<number, Clue>([[0, createClue({ category: 'spatial', axis: 'x', sign: 1 })]]);
+    expect(solvePuzzle({ dungeon: crossroads, clues }).expectedMoves).toBe(2);
+  });
+
+  it('works out which room the smoke comes from', () => {
+    // A square of rooms with the dragon in the far corner and the gem past it
+    const square: Dungeon = {
+      rooms: [
+        { id: 0, x: 0, y: 0, connections: [1, 2] },
+        { id: 1, x: 1, y: 0, connections: [0, 3, 4] },
+        { id: 2, x: 0, y: 1, connections: [0, 3] },
+        { id: 3, x: 1, y: 1, connections: [1, 2] },
+        { id: 4, x: 2, y: 0, connections: [1] },
+      ],
+      entranceId: 0,
+      treasureId: 4,
+      dragonId: 3,
+    };
+    const result = solvePuzzle({ dungeon: square, clues: new Map() });
+    expect(result.stuckRuns).toBe(0);
+    for (const route of result.routes) expect(route).not.toContain(3);
+  });
+
+  it('only trusts the clues a player could check', () => {
+    // The gem's room is the only one with a single tunnel, but that can't be
+    // told from the entrance, and smoke there makes both rooms in sight a risk
+    const forked: Dungeon = {
+      rooms: [
+        { id: 0, x: 0, y: 0, connections: [1, 2] },
+        { id: 1, x: 1, y: 0, connections: [0] },
+        { id: 2, x: -1, y: 0, connections: [0, 3, 4] },
+        { id: 3, x: -1, y: 1, connections: [2, 4] },
+        { id: 4, x: -2, y: 0, connections: [2, 3] },
+      ],
+      entranceId: 0,
+      treasureId: 1,
+      dragonId: 2,
+    };
+    const clues = new Map<number, Clue>([[0, createClue({ category: 'exits', exitCount: 1 })]]);
+    const result = solvePuzzle({ dungeon: forked, clues }, { runs: 4 });
+    expect(result.expectedMoves).toBeNull();
+    expect(result.stuckRuns).toBe(4);
+  });
+
+  it('gives every player the same answer', () => {
+    const puzzle = generatePuzzle('2026-02-06');
+    expect(solvePuzzle(puzzle)).toEqual(solvePuzzle(puzzle));
+  });
+});
+
+describe('calculateSolverPar', () => {
+  it('leaves a move to spare on a map with nothing to work out', () => {
+    const clues = new Map<number, Clue>([[0, createClue({ category: 'spatial', axis: 'x', sign: 1 })]]);
+    expect(calculateSolverPar({ dungeon: corridor, clues })).toBe(4);
+  });
+
+  it('is never below the shortest walk to the gem', () => {
+    for (const date of ['2026-02-01', '2026-02-13', '2026-03-01', '2026-03-17']) {
+      const { dungeon, clues } = generatePuzzle(date);
+      const shortest = getShortestRoute(dungeon.rooms, dungeon.entranceId, dungeon.treasureId, dungeon.dragonId);
+      expect(calculateSolverPar({ dungeon, clues })).toBeGreaterThan(shortest.length - 1);
+    }
+  });
+
+  it('falls back to the shortest path plus one when the solver is stuck', () => {
+    expect(calculateSolverPar({ dungeon: { ...corridor, dragonId: 1 }, clues: new Map() })).toBe(4);
+  });
+});
@@ -0,0 +1,240 @@
+import type { Clue, ClueCategory, Puzzle, Room, SolverOptions, SolverResult } from '../types';
+import { createSeededRandom } from './seedRandom';
+import { getSmokyRoomIds } from './dragonWarnings';
+import { roomMatchesClue } from './clueGenerator';
+import { getShortestRoute } from './graphUtils';
+import { calculatePar } from './generateDungeon';
+
+export const DEFAULT_SOLVER_OPTIONS: SolverOptions = {
+  runs: 16,
+  maxMoves: 200,
+  seed: 1,
+};
+
+// Clues that only depend on where a room lies. They are all the player can
+// check for a room they haven't entered, whose tunnels they don't know, or a
+// square of the grid they haven't seen into yet.
+const POSITIONAL_CATEGORIES = new Set<ClueCategory>(['spatial', 'negative', 'manhattan', 'parity', 'quadrant']);
+
+// How far beyond the rooms seen an unseen gem chamber is looked for
+const SEARCH_RADIUS = 2;
+
+// An empty square might not hold a room at all; a room seen is certain to
+const EMPTY_SQUARE_WEIGHT = 0.5;
+
+// Rooms join their eight grid neighbors at most
+const DIRECTIONS = [-1, 0, 1].flatMap((dx) => [-1, 0, 1].map((dy) => [dx, dy])).filter(([dx, dy]) => dx || dy);
+
+const squareKey = (x: number, y: number) => `${x},${y}`;
+
+interface FrontierRoom {
+  distance: number; // moves from the current room
+  via: number; // visited room it is entered from
+}
+
+// Where the player believes the gem could be, weighted by how likely each
+// square is to hold it, and which squares a path there may cross
+interface GemBelief {
+  weights: Map<string, number>;
+  roomIds: Set<number>; // rooms seen, not entered, that could hold it
+  isPassable: (x: number, y: number) => boolean;
+}
+
+// What the player knows: the rooms they have been in, and the rooms those
+// open onto. Nothing beyond is known to exist.
+function getSeenRoomIds(roomById: Map<number, Room>, visited: Set<number>): Set<number> {
+  const seen = new Set(visited);
+  for (const id of visited) {
+    for (const neighborId of roomById.get(id)!.connections) seen.add(neighborId);
+  }
+  return seen;
+}
+
+// Unvisited rooms that could be the dragon's lair: smoke means the lair opens
+// onto that room, so it is a neighbor of every smoky room visited and of no
+// room visited without smoke
+function getDragonSuspects(roomById: Map<number, Room>, visited: Set<number>, smoky: Set<number>): Set<number> {
+  const visitedSmoky = [...visited].filter((id) => smoky.has(id));
+  if (visitedSmoky.length === 0) return new Set();
+  const [first, ...rest] = visitedSmoky.map((id) => roomById.get(id)!.connections.filter((n) => !visited.has(n)));
+  const cleared = new Set([...visited].filter((id) => !smoky.has(id)).flatMap((id) => roomById.get(id)!.connections));
+  return new Set(first.filter((id) => rest.every((connections) => connections.includes(id)) && !cleared.has(id)));
+}
+
+// Unvisited rooms the player could walk to next, through rooms already
+// visited (the only tunnels they know of). Rooms that could hide the dragon
+// are never entered, unless the clues have pinned one as the gem's room.
+function getFrontier(
+  roomById: Map<number, Room>,
+  visited: Set<number>,
+  currentId: number,
+  suspects: Set<number>,
+  gemId: number | null,
+  parents: Map<number, number>
+): Map<number, FrontierRoom> {
+  const distances = new Map<number, number>([[currentId, 0]]);
+  const frontier = new Map<number, FrontierRoom>();
+  parents.clear();
+  const queue = [currentId];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const neighborId of roomById.get(id)!.connections) {
+      if (visited.has(neighborId)) {
+        if (distances.has(neighborId)) continue;
+        distances.set(neighborId, distances.get(id)! + 1);
+        parents.set(neighborId, id);
+        queue.push(neighborId);
+      } else if (!frontier.has(neighborId) && (!suspects.has(neighborId) || neighborId === gemId)) {
+        frontier.set(neighborId, { distance: distances.get(id)! + 1, via: id });
+      }
+    }
+  }
+  return frontier;
+}
+
+// The gem is in a room seen but not entered, or in a room not seen yet on a
+// square near them; either way it fits every clue collected that only needs
+// a position. Paths may cross anything but visited rooms, whose tunnels are
+// all known.
+function getGemBelief(
+  roomById: Map<number, Room>,
+  seen: Set<number>,
+  visited: Set<number>,
+  clues: Map<number, Clue>
+): GemBelief {
+  const seenRooms = [...seen].map((id) => roomById.get(id)!);
+  const seenAt = new Map(seenRooms.map((r) => [squareKey(r.x, r.y), r]));
+  const positional = [...visited]
+    .filter((id) => clues.has(id) && POSITIONAL_CATEGORIES.has(clues.get(id)!.category))
+    .map((id) => ({ clue: clues.get(id)!, clueRoom: roomById.get(id)! }));
+  const xs = seenRooms.map((r) => r.x);
+  const ys = seenRooms.map((r) => r.y);
+  const [minX, maxX] = [Math.min(...xs) - SEARCH_RADIUS, Math.max(...xs) + SEARCH_RADIUS];
+  const [minY, maxY] = [Math.min(...ys) - SEARCH_RADIUS, Math.max(...ys) + SEARCH_RADIUS];
+
+  const weights = new Map<string, number>();
+  const roomIds = new Set<number>();
+  for (let x = minX; x <= maxX; x++) {
+    for (let y = minY; y <= maxY; y++) {
+      const room = seenAt.get(squareKey(x, y));
+      if (room && visited.has(room.id)) continue;
+      if (!positional.every(({ clue, clueRoom }) => roomMatchesClue({ id: -1, x, y, connections: [] }, clue, clueRoom, []))) continue;
+      if (room) roomIds.add(room.id);
+      weights.set(squareKey(x, y), room ? 1 : EMPTY_SQUARE_WEIGHT);
+    }
+  }
+  const isPassable = (x: number, y: number) => {
+    if (x < minX || x > maxX || y < minY || y > maxY) return false;
+    const room = seenAt.get(squareKey(x, y));
+    return !room || !visited.has(room.id);
+  };
+  return { weights, roomIds, isPassable };
+}
+
+// Moves from a room to the gem, averaged over where the player believes it
+// could be, supposing every square not visited opens onto all its neighbors
+function getExpectedDistance(room: Room, belief: GemBelief): number {
+  const distances = new Map<string, number>([[squareKey(room.x, room.y), 0]]);
+  const queue: [number, number][] = [[room.x, room.y]];
+  let total = 0;
+  let totalWeight = 0;
+  while (queue.length > 0) {
+    const [x, y] = queue.shift()!;
+    const distance = distances.get(squareKey(x, y))!;
+    const weight = belief.weights.get(squareKey(x, y)) ?? 0;
+    total += weight * distance;
+    totalWeight += weight;
+    for (const [dx, dy] of DIRECTIONS) {
+      const [nx, ny] = [x + dx, y + dy];
+      if (distances.has(squareKey(nx, ny)) || !belief.isPassable(nx, ny)) continue;
+      distances.set(squareKey(nx, ny), distance + 1);
+      queue.push([nx, ny]);
+    }
+  }
+  return totalWeight > 0 ? total / totalWeight : 0;
+}
+
+// Where a player who only knows what they have seen heads next: to the gem
+// once the clues leave it no other square, otherwise to the room that
+// leaves them nearest the gem on average
+function chooseTarget(
+  frontier: Map<number, FrontierRoom>,
+  roomById: Map<number, Room>,
+  belief: GemBelief,
+  gemId: number | null,
+  random: () => number
+): number {
+  if (gemId !== null && frontier.has(gemId)) return gemId;
+  const ids = [...frontier.keys()];
+  const costs = new Map(ids.map((id) => [id, frontier.get(id)!.distance + getExpectedDistance(roomById.get(id)!, belief)]));
+  const best = Math.min(...costs.values());
+  const tied = ids.filter((id) => costs.get(id)! - best < 1e-9);
+  return tied[Math.floor(random() * tied.length)];
+}
+
+// One playthrough; the route taken, or null if it got stuck
+function playOnce(puzzle: Pick<Puzzle, 'dungeon' | 'clues'>, options: SolverOptions, random: () => number): number[] | null {
+  const { dungeon, clues } = puzzle;
+  const { rooms, entranceId, treasureId, dragonId } = dungeon;
+  const roomById = new Map(rooms.map((r) => [r.id, r]));
+  const smoky = getSmokyRoomIds(dungeon);
+  const visited = new Set([entranceId]);
+  const parents = new Map<number, number>();
+  const route = [entranceId];
+
+  while (route.at(-1) !== treasureId) {
+    if (route.length > options.maxMoves) return null;
+    const belief = getGemBelief(roomById, getSeenRoomIds(roomById, visited), visited, clues);
+    const gemId = belief.weights.size === 1 && belief.roomIds.size === 1 ? [...belief.roomIds][0] : null;
+    const suspects = getDragonSuspects(roomById, visited, smoky);
+    const frontier = getFrontier(roomById, visited, route.at(-1)!, suspects, gemId, parents);
+    if (frontier.size === 0) return null;
+
+    const targetId = chooseTarget(frontier, roomById, belief, gemId, random);
+    const walk = [targetId];
+    for (let id = frontier.get(targetId)!.via; id !== route.at(-1); id = parents.get(id)!) walk.unshift(id);
+    route.push(...walk);
+    visited.add(targetId);
+    if (targetId === dragonId) return null;
+  }
+  return route;
+}
+
+// Play the puzzle many times the way a careful player would, seeing only the
+// rooms they have reached and the clues they have collected, and average the
+// moves it took. Ties between equally good rooms are broken at random, so the
+// average covers the luck of the guesses a real player has to make.
+export function solvePuzzle(
+  puzzle: Pick<Puzzle, 'dungeon' | 'clues'>,
+  overrides: Partial<SolverOptions> = {}
+): SolverResult {
+  const options: SolverOptions = { ...DEFAULT_SOLVER_OPTIONS, ...overrides };
+  const random = createSeededRandom(options.seed);
+  const routes: number[][] = [];
+  let stuckRuns = 0;
+
+  for (let run = 0; run < options.runs; run++) {
+    const route = playOnce(puzzle, options, random);
+    if (route) {
+      routes.push(route);
+    } else {
+      stuckRuns++;
+    }
+  }
+
+  const expectedMoves = routes.length > 0
+    ? routes.reduce((sum, route) => sum + route.length - 1, 0) / routes.length
+    : null;
+  return { expectedMoves, routes, stuckRuns };
+}
+
+// Par is the moves a careful player needs on average, but never less than
+// the shortest walk past the dragon plus one, so walking straight to the gem
+// always beats it. Dungeons the solver can't finish without gambling get
+// that floor as par.
+export function calculateSolverPar(puzzle: Pick<Puzzle, 'dungeon' | 'clues'>): number {
+  const { rooms, entranceId, treasureId, dragonId } = puzzle.dungeon;
+  const floor = getShortestRoute(rooms, entranceId, treasureId, dragonId).length || calculatePar(puzzle.dungeon) + 1;
+  const { expectedMoves } = solvePuzzle(puzzle);
+  return expectedMoves === null ? floor : Math.max(floor, Math.round(expectedMoves));
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { validateDungeon, hasErrors } from './validateDungeon';
+import { generateDungeon, generateClues, createClue } from './index';
+import type { Clue, Dungeon } from '../types';
+
+// Chain 0-1-2-3 along the x axis with the treasure at the far end
+function makeDungeon(): Dungeon {
+  return {
+    rooms: [
+      { id: 0, x: 0, y: 0, connections: [1] },
+      { id: 1, x: 1, y: 0, connections: [0, 2] },
+      { id: 2, x: 2, y: 0, connections: [1, 3] },
+      { id: 3, x: 3, y: 0, connections: [2] },
+    ],
+    entranceId: 0,
+    treasureId: 3,
+    dragonId: null,
+  };
+}
+
+function makeClues(): Map<number, Clue> {
+  return new Map<number, Clue>([
+    [0, createClue({ category: 'manhattan', distance: 3 })],
+    [1, createClue({ category: 'exits', exitCount: 1 })],
+    [2, createClue({ category: 'spatial', axis: 'x', sign: 1 })],
+  ]);
+}
+
+// Invariants are tuned for generated dungeons; the toy chain is deliberately short
+const chainOptions = { minTreasureDistance: 3, maxTreasureDistance: 3, minEntranceExits: 1 };
+
+function codes(dungeon: Dungeon, clues: Map<number, Clue>): string[] {
+  return validateDungeon(dungeon, clues, chainOptions).map((v) => v.code);
+}
+
+describe('validateDungeon', () => {
+  const seeds = ['2026-01-01', '2026-02-05', '2026-06-15', '2026-12-31', 'test-seed-1', 'dev-12345'];
+
+  it.each(seeds)('finds no errors in the generated puzzle for seed %s', (seed) => {
+    const dungeon = generateDungeon(seed);
+    const violations = validateDungeon(dungeon, generateClues(dungeon, seed));
+    expect(violations.filter((v) => v.severity === 'error')).toEqual([]);
+  });
+
+  it('accepts a well-formed dungeon', () => {
+    expect(validateDungeon(makeDungeon(), makeClues(), chainOptions)).toEqual([]);
+  });
+
+  it('reports one-way connections', () => {
+    const dungeon = makeDungeon();
+    dungeon.rooms[2].connections = [1, 3];
+    dungeon.rooms[1].connections = [0];
+    expect(codes(dungeon, makeClues())).toContain('one-way-connection');
+  });
+
+  it('reports connections between rooms that are not grid-adjacent', () => {
+    const dungeon = makeDungeon();
+    dungeon.rooms[0].connections.push(2);
+    dungeon.rooms[2].connections.push(0);
+    expect(codes(dungeon, makeClues())).toContain('non-adjacent-connection');
+  });
+
+  it('reports rooms sharing a position', () => {
+    const dungeon = makeDungeon();
+    dungeon.rooms[3].x = 1;
+    dungeon.rooms[3].y = 0;
+    expect(codes(dungeon, makeClues())).toContain('duplicate-position');
+  });
+
+  it('reports rooms unreachable from the entrance', () => {
+    const dungeon = makeDungeon();
+    dungeon.rooms.push({ id: 4, x: 5, y: 5, connections: [] });
+    const violation = validateDungeon(dungeon, makeClues(), chainOptions).find((v) => v.code === 'disconnected');
+    expect(violation?.roomIds).toEqual([4]);
+    expect(violation?.severity).toBe('error');
+  });
+
+  it('reports connections to missing rooms without throwing', () => {
+    const dungeon = makeDungeon();
+    dungeon.rooms[3].connections.push(9);
+    expect(codes(dungeon, makeClues())).toContain('unknown-room');
+  });
+
+  it('reports a dragon that blocks every path to the treasure', () => {
+    const dungeon = { ...makeDungeon(), dragonId: 2 };
+    const clues = makeClues();
+    clues.delete(2);
+    expect(codes(dungeon, clues)).toContain('dragon-blocks-treasure');
+  });
+
+  it('warns when the treasure distance is outside the configured range', () => {
+    const violations = validateDungeon(makeDungeon(), makeClues(), { ...chainOptions, minTreasureDistance: 5, maxTreasureDistance: 7 });
+    const violation = violations.find((v) => v.code === 'treasure-distance');
+    expect(violation?.severity).toBe('warning');
+    expect(hasErrors(violations)).toBe(false);
+  });
+
+  it('reports clues that do not hold for the treasure', () => {
+    const clues = makeClues();
+    clues.set(1, createClue({ category: 'exits', exitCount: 2 }));
+    expect(codes(makeDungeon(), clues)).toContain('false-clue');
+  });
+
+  it('reports clues that leave more than one candidate', () => {
+    const clues = new Map<number, Clue>([[0, createClue({ category: 'spatial', axis: 'x', sign: 1 })]]);
+    const violation = validateDungeon(makeDungeon(), clues, chainOptions).find((v) => v.code === 'ambiguous-clues');
+    expect(violation?.roomIds).toEqual([1, 2]);
+  });
+
+  it('reports a clue placed in the treasure room', () => {
+    const clues = makeClues();
+    clues.set(3, createClue({ category: 'exits', exitCount: 1 }));
+    expect(codes(makeDungeon(), clues)).toContain('misplaced-clue');
+  });
+});
@@ -0,0 +1,172 @@
+import type { Clue, Dungeon, DungeonViolation, GeneratorOptions, Room } from '../types';
+import { areGridAdjacent, calculateDistances, isReachableWithout } from './graphUtils';
+import { roomMatchesClue } from './clueGenerator';
+import { DEFAULT_GENERATOR_OPTIONS } from './generateDungeon';
+import { isDragonAvoidable } from './dragonWarnings';
+
+// Check every invariant a playable dungeon relies on. Errors make the puzzle
+// unplayable or unfair; warnings flag tuning targets the generator missed.
+export function validateDungeon(
+  dungeon: Dungeon,
+  clues: Map<number, Clue>,
+  overrides: Partial<GeneratorOptions> = {}
+): DungeonViolation[] {
+  const options: GeneratorOptions = { ...DEFAULT_GENERATOR_OPTIONS, ...overrides };
+  const { rooms, entranceId, treasureId, dragonId } = dungeon;
+  const roomById = new Map(rooms.map((r) => [r.id, r]));
+  const violations: DungeonViolation[] = [];
+  const report = (
+    code: DungeonViolation['code'],
+    severity: DungeonViolation['severity'],
+    message: string,
+    roomIds: number[] = []
+  ) => violations.push({ code, severity, message, roomIds });
+
+  // Special rooms must exist and be distinct
+  for (const [label, id] of [['Entrance', entranceId], ['Treasure', treasureId], ['Dragon', dragonId]] as const) {
+    if (id !== null && !roomById.has(id)) {
+      report('unknown-room', 'error', `${label} room ${id} does not exist`, [id]);
+    }
+  }
+  if (entranceId === treasureId) {
+    report('invalid-placement', 'error', 'Treasure is in the entrance room', [treasureId]);
+  }
+  if (dragonId !== null && (dragonId === entranceId || dragonId === treasureId)) {
+    report('invalid-placement', 'error', `Dragon shares room ${dragonId} with the entrance or treasure`, [dragonId]);
+  }
+
+  // Connections: known rooms, no loops onto self, bidirectional, grid-adjacent
+  for (const room of rooms) {
+    for (const neighborId of room.connections) {
+      const neighbor = roomById.get(neighborId);
+      if (!neighbor) {
+        report('unknown-room', 'error', `Room ${room.id} connects to missing room ${neighborId}`, [room.id, neighborId]);
+        continue;
+      }
+      if (neighborId === room.id) {
+        report('self-connection', 'error', `Room ${room.id} connects to itself`, [room.id]);
+        continue;
+      }
+      if (!neighbor.connections.includes(room.id)) {
+        report('one-way-connection', 'error', `Room ${room.id} connects to ${neighborId} but not back`, [room.id, neighborId]);
+      }
+      if (room.id < neighborId && !areGridAdjacent(room, neighbor)) {
+        report(
+          'non-adjacent-connection', 'error',
+          `Rooms ${room.id} (${room.x},${room.y}) and ${neighborId} (${neighbor.x},${neighbor.y}) are not grid-adjacent`,
+          [room.id, neighborId]
+        );
+      }
+    }
+  }
+
+  // Positions are unique
+  const byPosition = new Map<string, Room>();
+  for (const room of rooms) {
+    const key = `${room.x},${room.y}`;
+    const other = byPosition.get(key);
+    if (other) {
+      report('duplicate-position', 'error', `Rooms ${other.id} and ${room.id} share position (${key})`, [other.id, room.id]);
+    } else {
+      byPosition.set(key, room);
+    }
+  }
+
+  // Graph checks below assume every referenced room exists
+  if (violations.some((v) => v.code === 'unknown-room')) return violations;
+
+  const distances = calculateDistances(rooms, entranceId);
+  const unreachable = rooms.filter((r) => !distances.has(r.id)).map((r) => r.id);
+  if (unreachable.length > 0) {
+    report('disconnected', 'error', `${unreachable.length} room(s) unreachable from the entrance`, unreachable);
+  }
+
+  if (dragonId !== null && dragonId !== entranceId && dragonId !== treasureId
+    && !isReachableWithout(rooms, entranceId, treasureId, dragonId)) {
+    report('dragon-blocks-treasure', 'error', `Dragon in room ${dragonId} blocks every path to the treasure`, [dragonId]);
+  }
+
+  const treasureDist = distances.get(treasureId);
+  if (treasureDist !== undefined
+    && (treasureDist < options.minTreasureDistance || treasureDist > options.maxTreasureDistance)) {
+    report(
+      'treasure-distance', 'warning',
+      `Treasure is ${treasureDist} steps from the entrance (expected ${options.minTreasureDistance}-${options.maxTreasureDistance})`,
+      [treasureId]
+    );
+  }
+
+  const entrance = roomById.get(entranceId)!;
+  if (entrance.connections.length < options.minEntranceExits) {
+    report(
+      'entrance-exits', 'warning',
+      `Entrance has ${entrance.connections.length} exit(s) (expected at least ${options.minEntranceExits})`,
+      [entranceId]
+    );
+  }
+
+  violations.push(...validateClues(dungeon, clues));
+
+  if (dragonId !== null && !violations.some((v) => v.severity === 'error') && !isDragonAvoidable(dungeon, clues)) {
+    report(
+      'dragon-unavoidable', 'error',
+      'Smoke warnings and clues leave no guaranteed-safe route to the treasure',
+      [dragonId]
+    );
+  }
+
+  return violations;
+}
+
+// Clues sit in every other room, tell the truth, and together isolate the treasure
+function validateClues(dungeon: Dungeon, clues: Map<number, Clue>): DungeonViolation[] {
+  const { rooms, treasureId, dragonId } = dungeon;
+  const roomById = new Map(rooms.map((r) => [r.id, r]));
+  const treasureRoom = roomById.get(treasureId)!;
+  const violations: DungeonViolation[] = [];
+
+  for (const room of rooms) {
+    const isSpecial = room.id === treasureId || room.id === dragonId;
+    if (isSpecial && clues.has(room.id)) {
+      violations.push({
+        code: 'misplaced-clue', severity: 'error',
+        message: `Room ${room.id} holds the ${room.id === treasureId ? 'treasure' : 'dragon'} and a clue`,
+        roomIds: [room.id],
+      });
+    } else if (!isSpecial && !clues.has(room.id)) {
+      violations.push({ code: 'missing-clue', severity: 'warning', message: `Room ${room.id} has no clue`, roomIds: [room.id] });
+    }
+  }
+
+  let candidates = rooms;
+  for (const [roomId, clue] of clues) {
+    const clueRoom = roomById.get(roomId);
+    if (!clueRoom) {
+      violations.push({ code: 'unknown-room', severity: 'error', message: `Clue placed in missing room ${roomId}`, roomIds: [roomId] });
+      continue;
+    }
+    if (!roomMatchesClue(treasureRoom, clue, clueRoom, rooms)) {
+      violations.push({
+        code: 'false-clue', severity: 'error',
+        message: `Clue in room ${roomId} ("${clue.text}") does not hold for the treasure`,
+        roomIds: [roomId],
+      });
+    }
+    candidates = candidates.filter((c) => roomMatchesClue(c, clue, clueRoom, rooms));
+  }
+
+  const others = candidates.filter((c) => c.id !== treasureId).map((c) => c.id);
+  if (others.length > 0) {
+    violations.push({
+      code: 'ambiguous-clues', severity: 'error',
+      message: `All clues together still allow ${others.length} other room(s)`,
+      roomIds: others,
+    });
+  }
+
+  return violations;
+}
+
+export function hasErrors(violations: DungeonViolation[]): boolean {
+  return violations.some((v) => v.severity === 'error');
+}
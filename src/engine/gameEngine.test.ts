@@ -0,0 +1,367 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createGame,
+  fitsPuzzle,
+  restoreGame,
+  serializeGame,
+  isTerminal,
+  canMove,
+  isVisible,
+  applyMove,
+  declareGem,
+  declareSquare,
+  hasDeclared,
+  markAssisted,
+  revealHint,
+  cycleMark,
+  rewindTo,
+  restartGame,
+  getCurrentClue,
+  getReplayFrame,
+} from './gameEngine';
+import { createClue, generatePuzzle, MAX_HINT_LEVEL } from '../dungeon';
+import type { Clue, Puzzle } from '../types';
+
+// Corridor 0-1-2-3 with a side room 4 off room 1; dragon in 4, gem in 3
+const puzzle: Puzzle = {
+  seed: 'test',
+  dungeon: {
+    rooms: [
+      { id: 0, x: 0, y: 0, connections: [1] },
+      { id: 1, x: 1, y: 0, connections: [0, 2, 4] },
+      { id: 2, x: 2, y: 0, connections: [1, 3] },
+      { id: 3, x: 3, y: 0, connections: [2] },
+      { id: 4, x: 1, y: 1, connections: [1] },
+    ],
+    entranceId: 0,
+    treasureId: 3,
+    dragonId: 4,
+  },
+  clues: new Map<number, Clue>([
+    [0, createClue({ category: 'spatial', axis: 'x', sign: 1 })],
+    [1, createClue({ category: 'manhattan', distance: 2 })],
+    [2, createClue({ category: 'exits', exitCount: 1 })],
+  ]),
+};
+
+describe('createGame', () => {
+  it('starts at the entrance with nothing but the entrance visited', () => {
+    const game = createGame(puzzle);
+    expect(game.currentRoomId).toBe(0);
+    expect(game.visitedRoomIds).toEqual(new Set([0]));
+    expect(game.moveCount).toBe(0);
+    expect(game.assisted).toBe(false);
+    expect(isTerminal(game)).toBe(false);
+  });
+
+  it('can start assisted', () => {
+    expect(createGame(puzzle, { assisted: true }).assisted).toBe(true);
+  });
+});
+
+describe('applyMove', () => {
+  it('moves through a tunnel, counting the move and visiting the room', () => {
+    const game = applyMove(createGame(puzzle), 1);
+    expect(game.currentRoomId).toBe(1);
+    expect(game.moveCount).toBe(1);
+    expect(game.visitedRoomIds).toEqual(new Set([0, 1]));
+    expect(getCurrentClue(game)?.category).toBe('manhattan');
+  });
+
+  it('ignores rooms not connected to the current room', () => {
+    const game = createGame(puzzle);
+    expect(canMove(game, 2)).toBe(false);
+    expect(applyMove(game, 2)).toBe(game);
+  });
+
+  it('counts revisits as moves', () => {
+    const game = applyMove(applyMove(createGame(puzzle), 1), 0);
+    expect(game.moveCount).toBe(2);
+    expect(game.visitedRoomIds).toEqual(new Set([0, 1]));
+  });
+
+  it('wins on the treasure and stops accepting moves', () => {
+    const game = [1, 2, 3].reduce(applyMove, createGame(puzzle));
+    expect(game.hasWon).toBe(true);
+    expect(isTerminal(game)).toBe(true);
+    expect(applyMove(game, 2)).toBe(game);
+  });
+
+  it('loses on the dragon', () => {
+    const game = [1, 4].reduce(applyMove, createGame(puzzle));
+    expect(game.hasLost).toBe(true);
+    expect(isTerminal(game)).toBe(true);
+  });
+});
+
+describe('path', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('logs every move in order, revisits included', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1000);
+    let game = createGame(puzzle);
+    vi.setSystemTime(2000);
+    game = applyMove(game, 1);
+    vi.setSystemTime(3000);
+    game = applyMove(game, 0);
+    expect(game.path).toEqual([
+      { roomId: 0, move: 0, timestamp: 1000, clueRevealed: true },
+      { roomId: 1, move: 1, timestamp: 2000, clueRevealed: true },
+      { roomId: 0, move: 2, timestamp: 3000, clueRevealed: false },
+    ]);
+    expect(game.visitedRoomIds).toEqual(new Set([0, 1]));
+  });
+
+  it('only reveals a clue in rooms that have one', () => {
+    const game = [1, 4].reduce(applyMove, createGame(puzzle));
+    expect(game.path.map((step) => step.clueRevealed)).toEqual([true, true, false]);
+  });
+
+  it('leaves the path alone on a refused move', () => {
+    const game = createGame(puzzle);
+    expect(applyMove(game, 3).path).toBe(game.path);
+  });
+});
+
+describe('declareGem', () => {
+  it('wins without walking when the declared room holds the gem', () => {
+    const game = declareGem([1, 2].reduce(applyMove, createGame(puzzle)), 3);
+    expect(game.hasWon).toBe(true);
+    expect(game.declaredRoomId).toBe(3);
+    expect(game.currentRoomId).toBe(2);
+    expect(game.moveCount).toBe(2);
+  });
+
+  it('loses on a wrong declaration', () => {
+    const game = declareGem(applyMove(createGame(puzzle), 1), 2);
+    expect(game.hasLost).toBe(true);
+    expect(game.hasWon).toBe(false);
+    expect(isTerminal(game)).toBe(true);
+  });
+
+  it('accepts rooms the player has not seen yet', () => {
+    const game = declareGem(createGame(puzzle), 3);
+    expect(game.hasWon).toBe(true);
+    expect(game.declaredRoomId).toBe(3);
+  });
+
+  it('refuses rooms already entered', () => {
+    const game = applyMove(createGame(puzzle), 1);
+    expect(declareGem(game, 1)).toBe(game);
+    expect(declareGem(game, 0)).toBe(game);
+  });
+});
+
+describe('declareSquare', () => {
+  it('names the room on the square, if there is one', () => {
+    const game = declareSquare(createGame(puzzle), 3, 0);
+    expect(game.hasWon).toBe(true);
+    expect(game.declaredRoomId).toBe(3);
+    expect(game.declaredSquare).toBeNull();
+  });
+
+  it('loses on an empty square', () => {
+    const game = declareSquare(createGame(puzzle), 2, 1);
+    expect(game.hasLost).toBe(true);
+    expect(game.declaredRoomId).toBeNull();
+    expect(game.declaredSquare).toEqual([2, 1]);
+    expect(hasDeclared(game)).toBe(true);
+    expect(declareSquare(game, 3, 0)).toBe(game);
+  });
+});
+
+describe('isVisible', () => {
+  it('shows visited rooms and the current room\'s neighbors only', () => {
+    const game = applyMove(createGame(puzzle), 1);
+    expect([0, 1, 2, 3, 4].filter((id) => isVisible(game, id))).toEqual([0, 1, 2, 4]);
+  });
+
+  it('reveals the whole mine once the game ends', () => {
+    const game = [1, 4].reduce(applyMove, createGame(puzzle));
+    expect([0, 1, 2, 3, 4].every((id) => isVisible(game, id))).toBe(true);
+  });
+});
+
+describe('assistance', () => {
+  it('marks the game assisted once', () => {
+    const assisted = markAssisted(createGame(puzzle));
+    expect(assisted.assisted).toBe(true);
+    expect(markAssisted(assisted)).toBe(assisted);
+  });
+
+  it('reveals hints up to the last tier', () => {
+    let game = createGame(puzzle);
+    for (let i = 0; i < MAX_HINT_LEVEL + 2; i++) game = revealHint(game);
+    expect(game.hintsUsed).toBe(MAX_HINT_LEVEL);
+  });
+
+  it('reveals no hints after the game ends', () => {
+    const game = [1, 2, 3].reduce(applyMove, createGame(puzzle));
+    expect(revealHint(game)).toBe(game);
+  });
+});
+
+describe('marks', () => {
+  it('cycles a visible room through each mark and back to none without a move', () => {
+    let game = applyMove(createGame(puzzle), 1);
+    const seen = [];
+    for (let i = 0; i < 4; i++) {
+      game = cycleMark(game, 4);
+      seen.push(game.marks.get(4));
+    }
+    expect(seen).toEqual(['ruled-out', 'suspect', 'dragon', undefined]);
+    expect(game.moveCount).toBe(1);
+  });
+
+  it('ignores rooms the player cannot see and finished games', () => {
+    const game = createGame(puzzle);
+    expect(cycleMark(game, 3)).toBe(game);
+    const won = [1, 2, 3].reduce(applyMove, game);
+    expect(cycleMark(won, 1)).toBe(won);
+  });
+
+  it('keeps marks through undo and restart', () => {
+    const before = applyMove(createGame(puzzle), 1);
+    const marked = applyMove(cycleMark(before, 4), 2);
+    expect(rewindTo(marked, before).marks.get(4)).toBe('ruled-out');
+    expect(restartGame(marked).marks.get(4)).toBe('ruled-out');
+  });
+});
+
+describe('undo and restart', () => {
+  it('rewinds out of the dragon lair but keeps assistance and hints', () => {
+    const before = applyMove(createGame(puzzle), 1);
+    const dead = applyMove(revealHint(before), 4);
+    expect(dead.hasLost).toBe(true);
+
+    const rewound = rewindTo(markAssisted(dead), before);
+    expect(rewound.currentRoomId).toBe(1);
+    expect(rewound.hasLost).toBe(false);
+    expect(rewound.moveCount).toBe(1);
+    expect(rewound.assisted).toBe(true);
+    expect(rewound.hintsUsed).toBe(1);
+  });
+
+  it('restarts the same dungeon from the entrance', () => {
+    const game = markAssisted([1, 2].reduce(applyMove, createGame(puzzle)));
+    const restarted = restartGame(game);
+    expect(restarted.dungeon).toBe(game.dungeon);
+    expect(restarted.clues).toBe(game.clues);
+    expect(restarted.currentRoomId).toBe(0);
+    expect(restarted.moveCount).toBe(0);
+    expect(restarted.assisted).toBe(true);
+    expect(restarted.path.map((step) => step.roomId)).toEqual([0]);
+  });
+});
+
+describe('getReplayFrame', () => {
+  it('shows the game as it stood after each step, map still revealed', () => {
+    const game = [1, 0, 1, 2, 3].reduce(applyMove, createGame(puzzle));
+    const frame = getReplayFrame(game, 2);
+    expect(frame.currentRoomId).toBe(0);
+    expect(frame.moveCount).toBe(2);
+    expect(frame.visitedRoomIds).toEqual(new Set([0, 1]));
+    expect(frame.hasWon).toBe(true);
+    expect(getReplayFrame(game, game.path.length - 1)).toEqual(game);
+  });
+
+  it('only shows a declaration on the last step', () => {
+    const game = declareGem(applyMove(createGame(puzzle), 1), 2);
+    expect(getReplayFrame(game, 0).declaredRoomId).toBeNull();
+    expect(getReplayFrame(game, 1).declaredRoomId).toBe(2);
+  });
+});
+
+describe('persistence', () => {
+  it('round-trips a game through its saved form', () => {
+    const game = declareGem(cycleMark(revealHint(markAssisted([1, 2].reduce(applyMove, createGame(puzzle)))), 3), 3);
+    const saved = JSON.parse(JSON.stringify(serializeGame(game, '2026-03-01')));
+    expect(saved.date).toBe('2026-03-01');
+    expect(restoreGame(puzzle, saved)).toEqual(game);
+  });
+
+  it('fills in fields missing from older saves', () => {
+    const game = restoreGame(puzzle, {
+      date: '2026-03-01', currentRoomId: 1, visitedRoomIds: [0, 1], moveCount: 1, hasWon: false, hasLost: false,
+    });
+    expect(game.assisted).toBe(false);
+    expect(game.hintsUsed).toBe(0);
+    expect(game.marks.size).toBe(0);
+    expect(game.declaredRoomId).toBeNull();
+  });
+
+  it('rebuilds a path from the rooms older saves listed', () => {
+    const game = restoreGame(puzzle, {
+      date: '2026-03-01', currentRoomId: 1, visitedRoomIds: [0, 1, 2], moveCount: 3, hasWon: false, hasLost: false,
+    });
+    expect(game.path.map((step) => step.roomId)).toEqual([0, 2, 1]);
+    expect(game.visitedRoomIds).toEqual(new Set([0, 1, 2]));
+    expect(game.currentRoomId).toBe(1);
+  });
+
+  it('keeps a game rebuilt from an older save after the player moves on', () => {
+    const legacy = {
+      date: '2026-03-01', currentRoomId: 1, visitedRoomIds: [0, 1, 2], moveCount: 3, hasWon: false, hasLost: false,
+    };
+    const game = [2, 3].reduce(applyMove, restoreGame(puzzle, legacy));
+    expect(game.moveCount).toBe(5);
+    expect(game.hasWon).toBe(true);
+    const saved = JSON.parse(JSON.stringify(serializeGame(game, '2026-03-01')));
+    expect(fitsPuzzle(puzzle.dungeon, saved)).toBe(true);
+    expect(restoreGame(puzzle, saved)).toEqual(game);
+  });
+
+  it('accepts saves played on the same puzzle, old and new', () => {
+    const won = declareGem([1, 2].reduce(applyMove, createGame(puzzle)), 3);
+    const lost = [1, 4].reduce(applyMove, createGame(puzzle));
+    expect(fitsPuzzle(puzzle.dungeon, serializeGame(won, '2026-03-01'))).toBe(true);
+    expect(fitsPuzzle(puzzle.dungeon, serializeGame(lost, '2026-03-01'))).toBe(true);
+    expect(fitsPuzzle(puzzle.dungeon, serializeGame(declareSquare(createGame(puzzle), 2, 1), '2026-03-01'))).toBe(true);
+    expect(fitsPuzzle(puzzle.dungeon, {
+      date: '2026-03-01', currentRoomId: 1, visitedRoomIds: [0, 1, 2], moveCount: 3, hasWon: false, hasLost: false,
+    })).toBe(true);
+  });
+
+  it('rejects saves that could not have been played on the puzzle', () => {
+    const saved = serializeGame([1, 2].reduce(applyMove, createGame(puzzle)), '2026-03-01');
+    const step = (roomId: number, move: number) => ({ roomId, move, timestamp: 0, clueRevealed: false });
+    // A room the dungeon doesn't have, a tunnel it doesn't have, a move count
+    // that doesn't match the path, and results the rooms don't explain
+    expect(fitsPuzzle(puzzle.dungeon, { ...saved, currentRoomId: 7, path: [...saved.path!, step(7, 3)], moveCount: 3 })).toBe(false);
+    expect(fitsPuzzle(puzzle.dungeon, { ...saved, currentRoomId: 3, path: [step(0, 0), step(3, 1)], moveCount: 1 })).toBe(false);
+    expect(fitsPuzzle(puzzle.dungeon, { ...saved, moveCount: 5 })).toBe(false);
+    expect(fitsPuzzle(puzzle.dungeon, { ...saved, hasWon: true })).toBe(false);
+    expect(fitsPuzzle(puzzle.dungeon, { ...saved, hasLost: true })).toBe(false);
+    expect(fitsPuzzle(puzzle.dungeon, { ...saved, hasLost: true, declaredSquare: [3, 0] })).toBe(false);
+    expect(fitsPuzzle(puzzle.dungeon, {
+      date: '2026-03-01', currentRoomId: 1, visitedRoomIds: [0, 9], moveCount: 1, hasWon: false, hasLost: false,
+    })).toBe(false);
+  });
+});
+
+describe('headless play', () => {
+  // Walking the shortest route always wins a generated daily
+  it('wins a generated puzzle by walking straight to the gem', () => {
+    const daily = generatePuzzle('2026-03-01');
+    const { rooms, entranceId, treasureId, dragonId } = daily.dungeon;
+    const previous = new Map<number, number>([[entranceId, entranceId]]);
+    const queue = [entranceId];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      for (const next of rooms.find((r) => r.id === id)!.connections) {
+        if (previous.has(next) || next === dragonId) continue;
+        previous.set(next, id);
+        queue.push(next);
+      }
+    }
+    const route: number[] = [];
+    for (let id = treasureId; id !== entranceId; id = previous.get(id)!) route.unshift(id);
+
+    const game = route.reduce(applyMove, createGame(daily));
+    expect(game.hasWon).toBe(true);
+    expect(game.moveCount).toBe(route.length);
+  });
+});
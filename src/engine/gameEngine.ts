@@ -0,0 +1,242 @@
+import type { Clue, Dungeon, GameState, PathStep, Puzzle, RoomMark, SavedGameState } from '../types';
+import { MAX_HINT_LEVEL } from '../dungeon';
+
+// Game rules as pure functions: every transition returns a new state (or the
+// same state when the action is not allowed) and never touches the UI or storage.
+// The one exception is the clock, read to timestamp each step of the path.
+
+// Order a room's mark steps through; after the last it is cleared
+const MARK_CYCLE: RoomMark[] = ['ruled-out', 'suspect', 'dragon'];
+
+interface CreateGameOptions {
+  assisted?: boolean; // practice games start with the deduction overlay on
+}
+
+export function getVisitedRoomIds(path: PathStep[]): Set<number> {
+  return new Set(path.map((step) => step.roomId));
+}
+
+export function createGame({ dungeon, clues }: Pick<Puzzle, 'dungeon' | 'clues'>, options: CreateGameOptions = {}): GameState {
+  const path: PathStep[] = [{
+    roomId: dungeon.entranceId,
+    move: 0,
+    timestamp: Date.now(),
+    clueRevealed: clues.has(dungeon.entranceId),
+  }];
+  return {
+    dungeon,
+    currentRoomId: dungeon.entranceId,
+    path,
+    visitedRoomIds: getVisitedRoomIds(path),
+    moveCount: 0,
+    hasWon: dungeon.entranceId === dungeon.treasureId,
+    hasLost: false,
+    declaredRoomId: null,
+    declaredSquare: null,
+    clues,
+    assisted: options.assisted ?? false,
+    hintsUsed: 0,
+    marks: new Map(),
+  };
+}
+
+// Older saves only kept the set of visited rooms: replay them in first-visit
+// order, ending in the current room at the saved move count, with unknown
+// times. The steps are marked as rebuilt, since neighbors in that order
+// needn't share a tunnel.
+function legacyPath(saved: SavedGameState, clues: Map<number, Clue>): PathStep[] {
+  const roomIds = (saved.visitedRoomIds ?? []).filter((id) => id !== saved.currentRoomId);
+  return [...roomIds, saved.currentRoomId].map((roomId, i) => ({
+    roomId,
+    move: i === roomIds.length ? saved.moveCount : i,
+    timestamp: 0,
+    clueRevealed: clues.has(roomId),
+    rebuilt: true,
+  }));
+}
+
+// Whether saved progress could have been played on this puzzle. A change to
+// the generator can give a date a different dungeon than the one the save
+// was made on; such saves are discarded rather than restored onto it.
+export function fitsPuzzle({ rooms, treasureId, dragonId }: Dungeon, saved: SavedGameState): boolean {
+  const roomById = new Map(rooms.map((r) => [r.id, r]));
+  const roomIds = saved.path?.map((step) => step.roomId) ?? [...(saved.visitedRoomIds ?? []), saved.currentRoomId];
+  if (!roomIds.every((id) => roomById.has(id))) return false;
+  if (saved.path) {
+    // Steps rebuilt from an older save are taken on trust; every step walked
+    // since goes through a tunnel, one move on from the step before
+    const walked = saved.path.every((step, i) => {
+      if (step.rebuilt) return true;
+      if (i === 0) return step.move === 0;
+      const prev = saved.path![i - 1];
+      return step.move === prev.move + 1 && roomById.get(prev.roomId)!.connections.includes(step.roomId);
+    });
+    const last = saved.path.at(-1);
+    if (!walked || last?.roomId !== saved.currentRoomId || saved.moveCount !== last.move) return false;
+  }
+  const declared = saved.declaredRoomId ?? null;
+  const square = saved.declaredSquare ?? null;
+  if (declared !== null && !roomById.has(declared)) return false;
+  if (square && rooms.some((r) => r.x === square[0] && r.y === square[1])) return false;
+  if (saved.hasWon && saved.currentRoomId !== treasureId && declared !== treasureId) return false;
+  const declaredWrong = square !== null || (declared !== null && declared !== treasureId);
+  if (saved.hasLost && saved.currentRoomId !== dragonId && !declaredWrong) return false;
+  return true;
+}
+
+// Rebuild a game from saved progress on the same puzzle
+export function restoreGame({ dungeon, clues }: Puzzle, saved: SavedGameState): GameState {
+  const path = saved.path ?? legacyPath(saved, clues);
+  return {
+    dungeon,
+    currentRoomId: saved.currentRoomId,
+    path,
+    visitedRoomIds: getVisitedRoomIds(path),
+    moveCount: saved.moveCount,
+    hasWon: saved.hasWon,
+    hasLost: saved.hasLost ?? false,
+    declaredRoomId: saved.declaredRoomId ?? null,
+    declaredSquare: saved.declaredSquare ?? null,
+    clues,
+    assisted: saved.assisted ?? false,
+    hintsUsed: saved.hintsUsed ?? 0,
+    marks: new Map(saved.marks ?? []),
+  };
+}
+
+export function serializeGame(state: GameState, date: string): SavedGameState {
+  return {
+    date,
+    currentRoomId: state.currentRoomId,
+    path: state.path,
+    moveCount: state.moveCount,
+    hasWon: state.hasWon,
+    hasLost: state.hasLost,
+    declaredRoomId: state.declaredRoomId,
+    declaredSquare: state.declaredSquare,
+    assisted: state.assisted,
+    hintsUsed: state.hintsUsed,
+    marks: [...state.marks],
+  };
+}
+
+export function isTerminal(state: GameState): boolean {
+  return state.hasWon || state.hasLost;
+}
+
+// Moves go through a single tunnel from the current room
+export function canMove(state: GameState, roomId: number): boolean {
+  if (isTerminal(state)) return false;
+  const current = state.dungeon.rooms.find((r) => r.id === state.currentRoomId);
+  return current?.connections.includes(roomId) ?? false;
+}
+
+// Visited rooms and the current room's neighbors; everything once the game ends
+export function isVisible(state: GameState, roomId: number): boolean {
+  if (isTerminal(state)) return true;
+  if (state.visitedRoomIds.has(roomId)) return true;
+  return canMove(state, roomId);
+}
+
+export function applyMove(state: GameState, roomId: number): GameState {
+  if (!canMove(state, roomId)) return state;
+  const step: PathStep = {
+    roomId,
+    move: state.moveCount + 1,
+    timestamp: Date.now(),
+    clueRevealed: !state.visitedRoomIds.has(roomId) && state.clues.has(roomId),
+  };
+  const path = [...state.path, step];
+  return {
+    ...state,
+    currentRoomId: roomId,
+    path,
+    visitedRoomIds: getVisitedRoomIds(path),
+    moveCount: step.move,
+    hasWon: roomId === state.dungeon.treasureId,
+    hasLost: roomId === state.dungeon.dragonId,
+  };
+}
+
+// Name a room as the gem's without walking there, seen or not: right wins
+// on the spot, wrong ends the game as a loss. Costs no move. Rooms already
+// entered can't hold the gem, so they can't be named.
+export function declareGem(state: GameState, roomId: number): GameState {
+  if (isTerminal(state) || state.visitedRoomIds.has(roomId)) return state;
+  if (!state.dungeon.rooms.some((r) => r.id === roomId)) return state;
+  const isGem = roomId === state.dungeon.treasureId;
+  return { ...state, declaredRoomId: roomId, hasWon: isGem, hasLost: !isGem };
+}
+
+// Name a grid square out of sight as the gem's. It may hold a room or
+// nothing at all; naming an empty square is a wrong declaration like any other.
+export function declareSquare(state: GameState, x: number, y: number): GameState {
+  const room = state.dungeon.rooms.find((r) => r.x === x && r.y === y);
+  if (room) return declareGem(state, room.id);
+  if (isTerminal(state)) return state;
+  return { ...state, declaredSquare: [x, y], hasLost: true };
+}
+
+export function hasDeclared(state: Pick<GameState, 'declaredRoomId' | 'declaredSquare'>): boolean {
+  return state.declaredRoomId !== null || state.declaredSquare !== null;
+}
+
+// Turning on the deduction overlay marks the result as assisted for good
+export function markAssisted(state: GameState): GameState {
+  return state.assisted ? state : { ...state, assisted: true };
+}
+
+export function revealHint(state: GameState): GameState {
+  if (isTerminal(state) || state.hintsUsed >= MAX_HINT_LEVEL) return state;
+  return { ...state, hintsUsed: state.hintsUsed + 1 };
+}
+
+// Step a visible room's mark to the next in the cycle; never costs a move
+export function cycleMark(state: GameState, roomId: number): GameState {
+  if (isTerminal(state) || !isVisible(state, roomId)) return state;
+  const marks = new Map(state.marks);
+  const current = state.marks.get(roomId);
+  const next = current ? MARK_CYCLE[MARK_CYCLE.indexOf(current) + 1] : MARK_CYCLE[0];
+  if (next) {
+    marks.set(roomId, next);
+  } else {
+    marks.delete(roomId);
+  }
+  return { ...state, marks };
+}
+
+// Return to an earlier state of the same game. Assistance and hints already
+// used still count, so undoing never improves a rating; marks are kept.
+export function rewindTo(state: GameState, earlier: GameState): GameState {
+  return {
+    ...earlier,
+    assisted: state.assisted || earlier.assisted,
+    hintsUsed: Math.max(state.hintsUsed, earlier.hintsUsed),
+    marks: state.marks,
+  };
+}
+
+// Back to the entrance of the same dungeon with the same clues and marks
+export function restartGame(state: GameState): GameState {
+  return { ...createGame(state, { assisted: state.assisted }), marks: state.marks };
+}
+
+export function getCurrentClue(state: GameState): Clue | null {
+  return state.clues.get(state.currentRoomId) ?? null;
+}
+
+// The finished game as it stood after a step of its path, for replays. The
+// outcome is kept so the map stays revealed; a declaration shows at the end.
+export function getReplayFrame(state: GameState, step: number): GameState {
+  const path = state.path.slice(0, Math.max(1, step + 1));
+  const last = path.at(-1)!;
+  return {
+    ...state,
+    path,
+    currentRoomId: last.roomId,
+    visitedRoomIds: getVisitedRoomIds(path),
+    moveCount: last.move,
+    declaredRoomId: path.length === state.path.length ? state.declaredRoomId : null,
+    declaredSquare: path.length === state.path.length ? state.declaredSquare : null,
+  };
+}
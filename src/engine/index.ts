@@ -0,0 +1,21 @@
+export {
+  createGame,
+  getVisitedRoomIds,
+  fitsPuzzle,
+  restoreGame,
+  serializeGame,
+  isTerminal,
+  canMove,
+  isVisible,
+  applyMove,
+  declareGem,
+  declareSquare,
+  hasDeclared,
+  markAssisted,
+  revealHint,
+  cycleMark,
+  rewindTo,
+  restartGame,
+  getCurrentClue,
+  getReplayFrame,
+} from './gameEngine';
@@ -1,52 +1,78 @@
 import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
-import type { GameState, Dungeon, Clue } from '../types';
+import type { GameState, Clue, Difficulty, GameRoute, Hint, Puzzle, SavedGameState, DailyRecord, PracticeSeed } from '../types';
 import {
-  generateDungeon,
+  generatePuzzle,
   getTodayDateString,
-  calculatePar,
+  calculateSolverPar,
+  scoreDifficulty,
   getPuzzleNumber,
+  getCandidateRoomIds,
+  getHint,
+  getSmokyRoomIds,
+  formatPracticeSeed,
+  practicePuzzleSeed,
 } from '../dungeon';
-import { generateClues } from '../dungeon/clueGenerator';
+import {
+  createGame,
+  fitsPuzzle,
+  restoreGame,
+  serializeGame,
+  isTerminal,
+  canMove,
+  isVisible,
+  applyMove,
+  declareGem,
+  declareSquare,
+  markAssisted,
+  revealHint,
+  cycleMark,
+  rewindTo,
+  restartGame,
+  getCurrentClue,
+} from '../engine';
+import { createDailyRecord } from '../utils/stats';
 
 const isDev = import.meta.env.DEV;
 const GAME_STATE_KEY = 'gunud-game-state';
-
-interface SavedGameState {
-  date: string;
-  currentRoomId: number;
-  visitedRoomIds: number[];
-  moveCount: number;
-  hasWon: boolean;
-  hasLost: boolean;
-}
+const ARCHIVE_STATE_KEY = 'gunud-archive-state';
 
 interface UseGameReturn {
   gameState: GameState;
   currentClue: Clue | null;
   par: number;
+  pickaxes: number; // the puzzle's difficulty score, 1 to 5
+  dateString: string;
   puzzleNumber: number;
+  abandonedRecord: DailyRecord | null;
   isPractice: boolean;
+  practiceSeedCode: string | null; // shareable code of the practice dungeon
+  archiveDate: string | null; // set while replaying a past daily
+  difficulty: Difficulty;
+  showDeduction: boolean;
+  candidateRoomIds: Set<number>; // visible rooms that could hold the gem
+  smokyRoomIds: Set<number>;
+  toggleDeduction: () => void;
+  hints: Hint[];
+  requestHint: () => void;
   moveToRoom: (roomId: number) => void;
+  markRoom: (roomId: number) => void;
+  isDeclaring: boolean; // next room tapped is declared as the gem's
+  toggleDeclaring: () => void;
+  declareRoom: (roomId: number) => void;
+  declareAt: (x: number, y: number) => void;
+  allowsUndo: boolean; // practice and archive only; the daily is undo-free
+  canUndo: boolean;
+  undo: () => void;
+  restart: () => void;
   resetGame: () => void;
   canMoveTo: (roomId: number) => boolean;
   isRoomVisible: (roomId: number) => boolean;
   regenerateDungeon: () => void;
-  startPractice: () => void;
-  tryAnother: () => void;
-  backToDaily: () => void;
 }
 
 function saveGameState(dateString: string, state: GameState): void {
   try {
-    const saved: SavedGameState = {
-      date: dateString,
-      currentRoomId: state.currentRoomId,
-      visitedRoomIds: [...state.visitedRoomIds],
-      moveCount: state.moveCount,
-      hasWon: state.hasWon,
-      hasLost: state.hasLost,
-    };
-    localStorage.setItem(GAME_STATE_KEY, JSON.stringify(saved));
+    localStorage.setItem(GAME_STATE_KEY, JSON.stringify(serializeGame(state, dateString)));
   } catch { /* ignore */ }
 }
 
@@ -62,57 +88,87 @@ function loadGameState(dateString: string): SavedGameState | null {
   }
 }
 
-function createInitialState(dungeon: Dungeon, dateString: string): GameState {
-  const clues = generateClues(dungeon, dateString);
+// Archived puzzles keep their own progress, one entry per date
+function loadArchiveStates(): Record<string, SavedGameState> {
+  try {
+    const stored = localStorage.getItem(ARCHIVE_STATE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
 
-  // Restore saved progress for today's puzzle
-  const saved = loadGameState(dateString);
-  if (saved) {
-    return {
-      dungeon,
-      currentRoomId: saved.currentRoomId,
-      visitedRoomIds: new Set(saved.visitedRoomIds),
-      moveCount: saved.moveCount,
-      hasWon: saved.hasWon,
-      hasLost: saved.hasLost ?? false,
-      clues,
-    };
+function saveArchiveState(dateString: string, state: GameState): void {
+  try {
+    const states = loadArchiveStates();
+    states[dateString] = serializeGame(state, dateString);
+    localStorage.setItem(ARCHIVE_STATE_KEY, JSON.stringify(states));
+  } catch { /* ignore */ }
+}
+
+function createArchiveState(dateString: string): GameState {
+  const puzzle = generatePuzzle(dateString);
+  const saved = loadArchiveStates()[dateString];
+  return saved && fitsPuzzle(puzzle.dungeon, saved) ? restoreGame(puzzle, saved) : createGame(puzzle);
+}
+
+// History record for a saved daily that was started but never finished
+// before its day ended
+function findAbandonedRecord(dateString: string): DailyRecord | null {
+  try {
+    const stored = localStorage.getItem(GAME_STATE_KEY);
+    if (!stored) return null;
+    const parsed: SavedGameState = JSON.parse(stored);
+    const unfinished = parsed.moveCount > 0 && !parsed.hasWon && !parsed.hasLost;
+    if (!unfinished || parsed.date >= dateString) return null;
+    const puzzle = generatePuzzle(parsed.date);
+    if (!fitsPuzzle(puzzle.dungeon, parsed)) return null;
+    return createDailyRecord(parsed.date, restoreGame(puzzle, parsed), calculateSolverPar(puzzle));
+  } catch {
+    return null;
   }
+}
 
-  return {
-    dungeon,
-    currentRoomId: dungeon.entranceId,
-    visitedRoomIds: new Set([dungeon.entranceId]),
-    moveCount: 0,
-    hasWon: dungeon.entranceId === dungeon.treasureId,
-    hasLost: false,
-    clues,
-  };
+// Restore saved progress for today's puzzle
+function createInitialState(puzzle: Puzzle, dateString: string): GameState {
+  const saved = loadGameState(dateString);
+  return saved && fitsPuzzle(puzzle.dungeon, saved) ? restoreGame(puzzle, saved) : createGame(puzzle);
 }
 
-function createPracticeState(dungeon: Dungeon, seed: string): GameState {
-  const clues = generateClues(dungeon, seed);
-  return {
-    dungeon,
-    currentRoomId: dungeon.entranceId,
-    visitedRoomIds: new Set([dungeon.entranceId]),
-    moveCount: 0,
-    hasWon: dungeon.entranceId === dungeon.treasureId,
-    hasLost: false,
-    clues,
-  };
+// Practice games start with the deduction overlay on
+function createPracticeState(seed: PracticeSeed): GameState {
+  return createGame(generatePuzzle(practicePuzzleSeed(seed), seed.difficulty), { assisted: true });
 }
 
-export function useGame(): UseGameReturn {
+// The puzzle a route asks for, with any saved progress restored
+function createRouteState(route: GameRoute, dateString: string): GameState {
+  switch (route.view) {
+    case 'practice': return createPracticeState(route.seed);
+    case 'archive': return createArchiveState(route.date);
+    case 'daily': return createInitialState(generatePuzzle(dateString), dateString);
+  }
+}
+
+// The route is fixed for the hook's lifetime; the caller remounts on navigation
+export function useGame(route: GameRoute): UseGameReturn {
   const [dateString, setDateString] = useState(getTodayDateString);
-  const puzzleNumber = getPuzzleNumber(dateString);
+  // Read before today's progress overwrites the save
+  const abandonedRecord = useMemo(() => findAbandonedRecord(dateString), [dateString]);
 
-  const [dungeon, setDungeon] = useState(() => generateDungeon(dateString));
-  const [gameState, setGameState] = useState(() => createInitialState(dungeon, dateString));
+  const [gameState, setGameState] = useState(() => createRouteState(route, dateString));
+  const [dungeon, setDungeon] = useState(() => gameState.dungeon);
 
-  // Practice mode
-  const [isPractice, setIsPractice] = useState(false);
-  const dailyStateRef = useRef<{ dungeon: Dungeon; gameState: GameState } | null>(null);
+  // Practice picks its tier; the daily and archive are always Normal
+  const practiceSeed = route.view === 'practice' ? route.seed : null;
+  const isPractice = practiceSeed !== null;
+  const difficulty: Difficulty = practiceSeed?.difficulty ?? 'normal';
+  const archiveDate = route.view === 'archive' ? route.date : null;
+  const puzzleNumber = getPuzzleNumber(archiveDate ?? dateString);
+  const isDaily = route.view === 'daily';
+
+  // Deduction overlay only shows once the game is marked as assisted
+  const [deductionToggle, setDeductionToggle] = useState(true);
+  const showDeduction = deductionToggle && gameState.assisted;
 
   // Detect date rollover (tab left open overnight)
   useEffect(() => {
@@ -136,17 +192,18 @@ export function useGame(): UseGameReturn {
   useEffect(() => {
     if (dateString === lastDateRef.current) return;
     lastDateRef.current = dateString;
-    const newDungeon = generateDungeon(dateString);
-    setDungeon(newDungeon);
-    setGameState(createInitialState(newDungeon, dateString));
-  }, [dateString]);
+    if (!isDaily) return;
+    const puzzle = generatePuzzle(dateString);
+    setDungeon(puzzle.dungeon);
+    setGameState(createInitialState(puzzle, dateString));
+  }, [dateString, isDaily]);
 
   const regenerateDungeon = useCallback(() => {
     if (!isDev) return;
     const randomSeed = `dev-${Date.now()}-${Math.random()}`;
-    const newDungeon = generateDungeon(randomSeed);
-    setDungeon(newDungeon);
-    setGameState(createInitialState(newDungeon, randomSeed));
+    const puzzle = generatePuzzle(randomSeed);
+    setDungeon(puzzle.dungeon);
+    setGameState(createInitialState(puzzle, randomSeed));
     console.log('[Dev] Regenerated dungeon with seed:', randomSeed);
   }, []);
 
@@ -162,99 +219,150 @@ export function useGame(): UseGameReturn {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [regenerateDungeon]);
 
-  // Par = shortest path + 1 (clue-gathering buffer)
-  const par = useMemo(() => calculatePar(dungeon) + 1, [dungeon]);
-
-  const currentClue = useMemo(() => {
-    return gameState.clues.get(gameState.currentRoomId) ?? null;
-  }, [gameState.currentRoomId, gameState.clues]);
-
-  const currentRoom = useMemo(
-    () => dungeon.rooms.find((r) => r.id === gameState.currentRoomId) ?? null,
-    [dungeon.rooms, gameState.currentRoomId]
-  );
-
-  const canMoveTo = useCallback(
-    (roomId: number): boolean => {
-      if (gameState.hasWon || gameState.hasLost) return false;
-      return currentRoom?.connections.includes(roomId) ?? false;
-    },
-    [currentRoom, gameState.hasWon, gameState.hasLost]
-  );
-
-  const isRoomVisible = useCallback(
-    (roomId: number): boolean => {
-      if (gameState.hasWon || gameState.hasLost) return true;
-      if (gameState.visitedRoomIds.has(roomId)) return true;
-      return currentRoom?.connections.includes(roomId) ?? false;
-    },
-    [currentRoom, gameState.visitedRoomIds, gameState.hasWon, gameState.hasLost]
-  );
-
-  const startPractice = useCallback(() => {
-    dailyStateRef.current = { dungeon, gameState };
-    const seed = `practice-${Date.now()}-${Math.random()}`;
-    const newDungeon = generateDungeon(seed);
-    setDungeon(newDungeon);
-    setGameState(createPracticeState(newDungeon, seed));
-    setIsPractice(true);
-  }, [dungeon, gameState]);
+  // Par = the moves a careful player needs on average, found by the solver
+  const { clues } = gameState;
+  const par = useMemo(() => calculateSolverPar({ dungeon, clues }), [dungeon, clues]);
+  const pickaxes = useMemo(() => scoreDifficulty({ dungeon, clues }).pickaxes, [dungeon, clues]);
 
-  const tryAnother = useCallback(() => {
-    const seed = `practice-${Date.now()}-${Math.random()}`;
-    const newDungeon = generateDungeon(seed);
-    setDungeon(newDungeon);
-    setGameState(createPracticeState(newDungeon, seed));
-  }, []);
+  const currentClue = useMemo(() => getCurrentClue(gameState), [gameState]);
 
-  const backToDaily = useCallback(() => {
-    if (dailyStateRef.current) {
-      setDungeon(dailyStateRef.current.dungeon);
-      setGameState(dailyStateRef.current.gameState);
-    }
-    setIsPractice(false);
-  }, []);
+  const canMoveTo = useCallback((roomId: number) => canMove(gameState, roomId), [gameState]);
 
-  const moveToRoom = useCallback(
-    (roomId: number) => {
-      if (!canMoveTo(roomId)) return;
-      setGameState((prev) => {
-        const newVisited = new Set(prev.visitedRoomIds);
-        newVisited.add(roomId);
-        const newState = {
-          ...prev,
-          currentRoomId: roomId,
-          visitedRoomIds: newVisited,
-          moveCount: prev.moveCount + 1,
-          hasWon: roomId === dungeon.treasureId,
-          hasLost: roomId === dungeon.dragonId,
-        };
-        if (!isPractice) {
+  const isRoomVisible = useCallback((roomId: number) => isVisible(gameState, roomId), [gameState]);
+
+  // Apply an engine transition, persisting daily or archive progress when it changes
+  const update = useCallback((transition: (state: GameState) => GameState) => {
+    setGameState((prev) => {
+      const newState = transition(prev);
+      if (newState !== prev) {
+        if (archiveDate !== null) {
+          saveArchiveState(archiveDate, newState);
+        } else if (isDaily) {
           saveGameState(dateString, newState);
         }
-        return newState;
-      });
-    },
-    [canMoveTo, dungeon.treasureId, dungeon.dragonId, dateString, isPractice]
-  );
+      }
+      return newState;
+    });
+  }, [isDaily, archiveDate, dateString]);
+
+  // States before each move, for undo outside the daily
+  const allowsUndo = !isDaily;
+  const [undoStack, setUndoStack] = useState<GameState[]>([]);
+
+  const moveToRoom = useCallback((roomId: number) => {
+    if (allowsUndo && canMove(gameState, roomId)) setUndoStack((stack) => [...stack, gameState]);
+    update((prev) => applyMove(prev, roomId));
+  }, [allowsUndo, gameState, update]);
+
+  const [isDeclaring, setIsDeclaring] = useState(false);
+  const toggleDeclaring = useCallback(() => setIsDeclaring((prev) => !prev), []);
+
+  const declare = useCallback((declared: GameState) => {
+    if (declared === gameState) return;
+    if (allowsUndo) setUndoStack((stack) => [...stack, gameState]);
+    setIsDeclaring(false);
+    update(() => declared);
+  }, [allowsUndo, gameState, update]);
+
+  const declareRoom = useCallback((roomId: number) => declare(declareGem(gameState, roomId)), [declare, gameState]);
+
+  // Squares out of sight, where the player can't tell a room from empty rock
+  const declareAt = useCallback((x: number, y: number) => declare(declareSquare(gameState, x, y)), [declare, gameState]);
+
+  const markRoom = useCallback((roomId: number) => update((prev) => cycleMark(prev, roomId)), [update]);
+
+  // Undoing or restarting an archived daily marks its result as assisted,
+  // without switching on the deduction overlay. Neither works once an
+  // archived daily has ended, since its result is recorded by then; practice
+  // games can always step back or start over.
+  const markRewound = useCallback((state: GameState) => {
+    if (archiveDate === null) return state;
+    if (!state.assisted) setDeductionToggle(false);
+    return markAssisted(state);
+  }, [archiveDate]);
+
+  const isLocked = archiveDate !== null && isTerminal(gameState);
+
+  const undo = useCallback(() => {
+    const earlier = undoStack.at(-1);
+    if (!earlier || isLocked) return;
+    setUndoStack((stack) => stack.slice(0, -1));
+    const rewound = markRewound(rewindTo(gameState, earlier));
+    update(() => rewound);
+  }, [undoStack, isLocked, gameState, markRewound, update]);
+
+  const restart = useCallback(() => {
+    if (!allowsUndo || isLocked || (gameState.moveCount === 0 && !isTerminal(gameState))) return;
+    setUndoStack([]);
+    const restarted = markRewound(restartGame(gameState));
+    update(() => restarted);
+  }, [allowsUndo, isLocked, gameState, markRewound, update]);
+
+  const toggleDeduction = useCallback(() => {
+    if (showDeduction) {
+      setDeductionToggle(false);
+      return;
+    }
+    setDeductionToggle(true);
+    update(markAssisted);
+  }, [showDeduction, update]);
+
+  // Only rooms the player can see count: the overlay never speaks for the
+  // unexplored part of the map
+  const candidateRoomIds = useMemo(() => {
+    const candidates = getCandidateRoomIds(dungeon, gameState.clues, gameState.visitedRoomIds);
+    return new Set([...candidates].filter((id) => isVisible(gameState, id)));
+  }, [dungeon, gameState]);
+
+  const smokyRoomIds = useMemo(() => getSmokyRoomIds(dungeon), [dungeon]);
+
+  const requestHint = useCallback(() => update(revealHint), [update]);
+
+  // Revealed hints are recomputed as the player moves and collects clues
+  const hints = useMemo(() => {
+    const result: Hint[] = [];
+    for (let level = 1; level <= gameState.hintsUsed; level++) {
+      const hint = getHint(dungeon, gameState.clues, gameState.visitedRoomIds, gameState.currentRoomId, level);
+      if (hint) result.push(hint);
+    }
+    return result;
+  }, [dungeon, gameState.clues, gameState.visitedRoomIds, gameState.currentRoomId, gameState.hintsUsed]);
 
   const resetGame = useCallback(() => {
-    setGameState(createInitialState(dungeon, dateString));
+    setGameState(prev => createInitialState({ seed: dateString, dungeon, clues: prev.clues }, dateString));
   }, [dungeon, dateString]);
 
   return {
     gameState,
     currentClue,
     par,
+    pickaxes,
+    dateString,
     puzzleNumber,
+    abandonedRecord,
     isPractice,
+    practiceSeedCode: practiceSeed && formatPracticeSeed(practiceSeed),
+    archiveDate,
+    difficulty,
+    showDeduction,
+    candidateRoomIds,
+    smokyRoomIds,
+    toggleDeduction,
+    hints,
+    requestHint,
     moveToRoom,
+    markRoom,
+    isDeclaring,
+    toggleDeclaring,
+    declareRoom,
+    declareAt,
+    allowsUndo,
+    canUndo: undoStack.length > 0 && !isLocked,
+    undo,
+    restart,
     resetGame,
     canMoveTo,
     isRoomVisible,
     regenerateDungeon,
-    startPractice,
-    tryAnother,
-    backToDaily,
   };
 }
@@ -0,0 +1,37 @@
+import { useEffect } from 'react';
+import { getKeyAction } from '../utils/keyboardNavigation';
+import type { GameState } from '../types';
+
+interface GameKeysOptions {
+  gameState: GameState;
+  enabled: boolean; // false while a modal or the replay is open
+  isDeclaring: boolean;
+  allowsUndo: boolean;
+  moveToRoom: (roomId: number) => void;
+  undo: () => void;
+  restart: () => void;
+}
+
+// Keyboard play: arrows, the numpad and QWE/ASD/ZXC walk through tunnels;
+// outside the daily, U or Ctrl/Cmd+Z undoes and R restarts. Form fields keep
+// their keys.
+export function useGameKeys({ gameState, enabled, isDeclaring, allowsUndo, moveToRoom, undo, restart }: GameKeysOptions): void {
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLElement && e.target.closest('input, textarea, select')) return;
+      const action = getKeyAction(e, { state: gameState, enabled, isDeclaring, allowsUndo });
+      if (!action) return;
+      e.preventDefault();
+      if (action.kind === 'move') {
+        moveToRoom(action.roomId);
+      } else if (action.kind === 'undo') {
+        undo();
+      } else {
+        restart();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [gameState, enabled, isDeclaring, allowsUndo, moveToRoom, undo, restart]);
+}
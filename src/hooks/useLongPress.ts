@@ -0,0 +1,52 @@
+import { useCallback, useRef } from 'react';
+import type { MouseEvent } from 'react';
+
+const LONG_PRESS_MS = 500;
+
+// Right-click or touch-and-hold handlers. Browsers that also raise a context
+// menu on long press only trigger once, and the click that ends the press is
+// swallowed so it doesn't count as a tap.
+export function useLongPress(onLongPress: () => void) {
+  const timer = useRef<number | null>(null);
+  const fired = useRef(false);
+
+  const cancel = useCallback(() => {
+    if (timer.current !== null) {
+      clearTimeout(timer.current);
+      timer.current = null;
+    }
+  }, []);
+
+  const fire = useCallback(() => {
+    cancel();
+    if (fired.current) return;
+    fired.current = true;
+    onLongPress();
+  }, [cancel, onLongPress]);
+
+  const onPointerDown = useCallback((e: { pointerType: string }) => {
+    fired.current = false;
+    cancel();
+    if (e.pointerType !== 'mouse') timer.current = window.setTimeout(fire, LONG_PRESS_MS);
+  }, [cancel, fire]);
+
+  const onContextMenu = useCallback((e: MouseEvent) => {
+    e.preventDefault();
+    fire();
+  }, [fire]);
+
+  const onClickCapture = useCallback((e: MouseEvent) => {
+    if (!fired.current) return;
+    fired.current = false;
+    e.stopPropagation();
+  }, []);
+
+  return {
+    onPointerDown,
+    onPointerUp: cancel,
+    onPointerLeave: cancel,
+    onPointerCancel: cancel,
+    onContextMenu,
+    onClickCapture,
+  };
+}
@@ -0,0 +1,44 @@
+import { useState, useCallback, useEffect } from 'react';
+
+const STEP_MS = 700;
+
+interface UseReplayReturn {
+  step: number;
+  isPlaying: boolean;
+  play: () => void;
+  pause: () => void;
+  stepBy: (delta: number) => void;
+  seek: (step: number) => void;
+}
+
+// Playback position over a route of stepCount steps. Playing advances one
+// step at a time and stops on the last; stepping or scrubbing pauses.
+export function useReplay(stepCount: number): UseReplayReturn {
+  const lastStep = Math.max(0, stepCount - 1);
+  const [step, setStep] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const isPlaying = playing && step < lastStep;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setTimeout(() => setStep((s) => s + 1), STEP_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, step]);
+
+  // Playing from the end starts over
+  const play = useCallback(() => {
+    if (step >= lastStep) setStep(0);
+    setPlaying(true);
+  }, [step, lastStep]);
+
+  const pause = useCallback(() => setPlaying(false), []);
+
+  const seek = useCallback((target: number) => {
+    setPlaying(false);
+    setStep(Math.min(lastStep, Math.max(0, target)));
+  }, [lastStep]);
+
+  const stepBy = useCallback((delta: number) => seek(step + delta), [seek, step]);
+
+  return { step: Math.min(step, lastStep), isPlaying, play, pause, stepBy, seek };
+}
@@ -0,0 +1,86 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { GameRoute, Route } from '../types';
+import { getTodayDateString } from '../dungeon';
+import { formatRoute, isGameRoute, parseRoute } from '../utils/routes';
+
+// Kept in history entries the app pushes itself
+interface HistoryState {
+  background?: string; // path of the game a modal was opened over
+  pushed?: boolean; // back stays inside the app
+}
+
+interface RouterLocation {
+  route: Route;
+  gameRoute: GameRoute;
+}
+
+interface NavigateOptions {
+  replace?: boolean;
+}
+
+interface UseRouterReturn {
+  route: Route;
+  gameRoute: GameRoute;
+  navigate: (route: Route, options?: NavigateOptions) => void;
+  closeModal: () => void;
+}
+
+function readLocation(): RouterLocation {
+  const today = getTodayDateString();
+  const route = parseRoute(window.location.pathname, window.location.search, today);
+  if (isGameRoute(route)) return { route, gameRoute: route };
+  const state = window.history.state as HistoryState | null;
+  const background = parseRoute(state?.background ?? '/', '', today);
+  return { route, gameRoute: isGameRoute(background) ? background : { view: 'daily' } };
+}
+
+export function useRouter(): UseRouterReturn {
+  const [location, setLocation] = useState(readLocation);
+
+  // Rewrite the address bar once when it was not already canonical
+  // (legacy ?seed= links, unknown paths)
+  useEffect(() => {
+    const path = formatRoute(readLocation().route);
+    if (path !== window.location.pathname || window.location.search) {
+      window.history.replaceState(window.history.state, '', path);
+    }
+  }, []);
+
+  useEffect(() => {
+    const handlePopState = () => setLocation(readLocation());
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const navigate = useCallback((route: Route, { replace = false }: NavigateOptions = {}) => {
+    const path = formatRoute(route);
+    if (path === window.location.pathname) return;
+    const state: HistoryState = {
+      background: isGameRoute(route) ? undefined : formatRoute(location.gameRoute),
+      pushed: replace ? (window.history.state as HistoryState | null)?.pushed : true,
+    };
+    if (replace) {
+      window.history.replaceState(state, '', path);
+    } else {
+      window.history.pushState(state, '', path);
+    }
+    setLocation({ route, gameRoute: isGameRoute(route) ? route : location.gameRoute });
+  }, [location.gameRoute]);
+
+  // Step back to the game underneath, or replace the modal when it was the
+  // page the visitor landed on
+  const closeModal = useCallback(() => {
+    if ((window.history.state as HistoryState | null)?.pushed) {
+      window.history.back();
+    } else {
+      navigate(location.gameRoute, { replace: true });
+    }
+  }, [navigate, location.gameRoute]);
+
+  return {
+    route: location.route,
+    gameRoute: location.gameRoute,
+    navigate,
+    closeModal,
+  };
+}
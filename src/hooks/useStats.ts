@@ -1,40 +1,31 @@
-import { useState, useCallback, useEffect } from 'react';
-import type { Stats, RatingCounts } from '../types';
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import type { Stats, SavedStats, Difficulty, GameResult, DailyRecord } from '../types';
 import { getTodayDateString } from '../dungeon';
-import { getGunudRating } from '../utils/sharing';
+import {
+  createDefaultStats,
+  migrateStats,
+  recordDailyResult,
+  recordArchiveResult,
+  recordPracticeResult,
+  deriveStats,
+  getWinPercentage,
+} from '../utils/stats';
 
 const STATS_KEY = 'gunud-stats';
 
-const DEFAULT_RATING_COUNTS: RatingCounts = { S: 0, A: 0, B: 0, C: 0, D: 0 };
-
-const DEFAULT_STATS: Stats = {
-  gamesPlayed: 0,
-  gamesWon: 0,
-  currentStreak: 0,
-  maxStreak: 0,
-  lastPlayedDate: null,
-  moveHistory: [],
-  ratingCounts: { ...DEFAULT_RATING_COUNTS },
-};
-
-function loadStats(): Stats {
+function loadStats(): SavedStats {
   try {
     const stored = localStorage.getItem(STATS_KEY);
     if (stored) {
-      const parsed = JSON.parse(stored);
-      // Migration: add ratingCounts if missing (backwards compatibility)
-      if (!parsed.ratingCounts) {
-        parsed.ratingCounts = { ...DEFAULT_RATING_COUNTS };
-      }
-      return parsed;
+      return migrateStats(JSON.parse(stored));
     }
   } catch {
     // Ignore errors
   }
-  return { ...DEFAULT_STATS, ratingCounts: { ...DEFAULT_RATING_COUNTS } };
+  return createDefaultStats();
 }
 
-function saveStats(stats: Stats): void {
+function saveStats(stats: SavedStats): void {
   try {
     localStorage.setItem(STATS_KEY, JSON.stringify(stats));
   } catch {
@@ -44,61 +35,59 @@ function saveStats(stats: Stats): void {
 
 interface UseStatsReturn {
   stats: Stats;
-  recordWin: (moves: number, par: number) => void;
+  recordDaily: (record: DailyRecord) => void;
+  recordArchive: (record: DailyRecord) => void;
+  recordPracticeWin: (difficulty: Difficulty, moves: number, par: number, hintsUsed?: number, declared?: boolean) => void;
+  recordPracticeLoss: (difficulty: Difficulty) => void;
   hasPlayedToday: boolean;
   averageMoves: number;
+  winPercentage: number;
 }
 
 export function useStats(): UseStatsReturn {
-  const [stats, setStats] = useState<Stats>(loadStats);
+  const [saved, setSaved] = useState<SavedStats>(loadStats);
+  const stats = useMemo(() => deriveStats(saved), [saved]);
 
   const todayString = getTodayDateString();
   const hasPlayedToday = stats.lastPlayedDate === todayString;
 
-  const averageMoves =
-    stats.moveHistory.length > 0
-      ? stats.moveHistory.reduce((a, b) => a + b, 0) / stats.moveHistory.length
-      : 0;
-
-  const recordWin = useCallback(
-    (moves: number, par: number) => {
-      if (hasPlayedToday) return; // Already played today
-
-      setStats((prev) => {
-        const yesterday = new Date();
-        yesterday.setDate(yesterday.getDate() - 1);
-        const yesterdayString = yesterday.toISOString().split('T')[0];
+  // Wins, losses and abandoned dailies all land in the history once per date
+  const recordDaily = useCallback((record: DailyRecord) => {
+    setSaved((prev) => {
+      const newStats = recordDailyResult(prev, record);
+      if (newStats !== prev) saveStats(newStats);
+      return newStats;
+    });
+  }, []);
 
-        const isConsecutive = prev.lastPlayedDate === yesterdayString;
-        const newStreak = isConsecutive ? prev.currentStreak + 1 : 1;
+  const recordArchive = useCallback((record: DailyRecord) => {
+    setSaved((prev) => {
+      const newStats = recordArchiveResult(prev, record);
+      if (newStats !== prev) saveStats(newStats);
+      return newStats;
+    });
+  }, []);
 
-        const rating = getGunudRating(moves, par);
-        const newRatingCounts: RatingCounts = {
-          ...prev.ratingCounts,
-          [rating.grade]: prev.ratingCounts[rating.grade] + 1,
-        };
+  const recordPractice = useCallback((difficulty: Difficulty, result: GameResult) => {
+    setSaved((prev) => {
+      const newStats = recordPracticeResult(prev, difficulty, result);
+      saveStats(newStats);
+      return newStats;
+    });
+  }, []);
 
-        const newStats: Stats = {
-          gamesPlayed: prev.gamesPlayed + 1,
-          gamesWon: prev.gamesWon + 1,
-          currentStreak: newStreak,
-          maxStreak: Math.max(prev.maxStreak, newStreak),
-          lastPlayedDate: todayString,
-          moveHistory: [...prev.moveHistory.slice(-29), moves], // Keep last 30 games
-          ratingCounts: newRatingCounts,
-        };
+  const recordPracticeWin = useCallback((difficulty: Difficulty, moves: number, par: number, hintsUsed = 0, declared = false) => {
+    recordPractice(difficulty, { outcome: 'win', moves, par, hintsUsed, declared });
+  }, [recordPractice]);
 
-        saveStats(newStats);
-        return newStats;
-      });
-    },
-    [hasPlayedToday, todayString]
-  );
+  const recordPracticeLoss = useCallback((difficulty: Difficulty) => {
+    recordPractice(difficulty, { outcome: 'loss' });
+  }, [recordPractice]);
 
   // Sync stats when localStorage changes from another tab
   useEffect(() => {
     function handleStorage(): void {
-      setStats(loadStats());
+      setSaved(loadStats());
     }
     window.addEventListener('storage', handleStorage);
     return () => window.removeEventListener('storage', handleStorage);
@@ -106,8 +95,12 @@ export function useStats(): UseStatsReturn {
 
   return {
     stats,
-    recordWin,
+    recordDaily,
+    recordArchive,
+    recordPracticeWin,
+    recordPracticeLoss,
     hasPlayedToday,
-    averageMoves,
+    averageMoves: stats.averageMoves,
+    winPercentage: getWinPercentage(stats),
   };
 }
@@ -9,26 +9,199 @@ export interface Dungeon {
   rooms: Room[];
   entranceId: number;
   treasureId: number;
-  dragonId: number;
+  dragonId: number | null; // null when generated without a dragon
 }
 
-export type ClueCategory = 'exits' | 'spatial' | 'manhattan' | 'entrance';
+// Tuning knobs for dungeon generation (ranges are inclusive)
+export interface GeneratorOptions {
+  minRooms: number;
+  maxRooms: number;
+  minExtraConnections: number;
+  maxExtraConnections: number;
+  minLoops: number;
+  minEntranceExits: number;
+  minTreasureDistance: number;
+  maxTreasureDistance: number;
+  minDeadEnds: number;
+  maxDeadEnds: number;
+  hasDragon: boolean;
+}
+
+export type ViolationSeverity = 'error' | 'warning';
+
+export type ViolationCode =
+  | 'unknown-room'
+  | 'self-connection'
+  | 'one-way-connection'
+  | 'non-adjacent-connection'
+  | 'duplicate-position'
+  | 'disconnected'
+  | 'invalid-placement'
+  | 'dragon-blocks-treasure'
+  | 'dragon-unavoidable'
+  | 'treasure-distance'
+  | 'entrance-exits'
+  | 'misplaced-clue'
+  | 'missing-clue'
+  | 'false-clue'
+  | 'ambiguous-clues';
+
+// A broken invariant found by validateDungeon
+export interface DungeonViolation {
+  code: ViolationCode;
+  severity: ViolationSeverity;
+  message: string;
+  roomIds: number[];
+}
+
+export type ClueCategory =
+  | 'exits'
+  | 'spatial'
+  | 'manhattan'
+  | 'entrance'
+  | 'negative'
+  | 'parity'
+  | 'quadrant'
+  | 'dead-end';
+
+// Tuning knobs for clue generation
+export interface ClueOptions {
+  categories: ClueCategory[];      // Category mix; repeat a category to weight it
+  // Bounds on how many clues, collected nearest-first from the entrance,
+  // it takes to isolate the gem (null = no upper bound beyond all clues)
+  minCluesToSolve: number;
+  maxCluesToSolve: number | null;
+}
 
-export interface Clue {
-  category: ClueCategory;
+// Tuning knobs for the par solver
+export interface SolverOptions {
+  runs: number;     // Playthroughs averaged; ties between equally good rooms are broken at random
+  maxMoves: number; // A playthrough still going after this many moves is abandoned
+  seed: number;     // For the tie-breaks, so every player gets the same par
+}
+
+export interface SolverResult {
+  expectedMoves: number | null; // mean over playthroughs that reached the gem; null if none did
+  routes: number[][];           // each of those playthroughs, entrance first
+  stuckRuns: number;            // playthroughs that ran out of rooms safe to enter
+}
+
+export type Difficulty = 'easy' | 'normal' | 'hard' | 'deep';
+
+export interface DifficultyPreset {
+  id: Difficulty;
+  label: string;
+  generator: Partial<GeneratorOptions>;
+  clues: ClueOptions;
+}
+
+// A practice dungeon that can be shared: the tier plus a short code
+export interface PracticeSeed {
+  difficulty: Difficulty;
+  code: string;
+}
+
+export type ClueAxis = 'x' | 'y';
+export type ClueSign = -1 | 0 | 1;
+export type ClueQuadrant = 'north-east' | 'north-west' | 'south-east' | 'south-west';
+
+// Structured meaning of a clue, discriminated by category.
+// Deduction reads these fields; display strings are rendered from them.
+export type CluePayload =
+  | { category: 'exits'; exitCount: number }
+  | { category: 'spatial'; axis: ClueAxis; sign: ClueSign } // sign of gem - room on axis
+  | { category: 'manhattan'; distance: number }
+  | { category: 'entrance'; steps: number }
+  | { category: 'negative'; axis: ClueAxis; sign: ClueSign } // a sign the gem - room delta does NOT have
+  | { category: 'parity'; axis: ClueAxis; even: boolean } // gem's column/row, counted from the entrance
+  | { category: 'quadrant'; quadrant: ClueQuadrant } // quarter of the map around the clue's room
+  | { category: 'dead-end'; isDeadEnd: boolean };
+
+export type Clue = CluePayload & {
   text: string;     // Full: "The treasure room has 3 exits"
   compact: string;  // Short: "3 exits"
   icon: string;     // Emoji: "🔗"
+};
+
+// A generated dungeon together with its clues
+export interface Puzzle {
+  seed: string;     // Seed actually used (differs from the requested seed for regenerated variants)
+  dungeon: Dungeon;
+  clues: Map<number, Clue>;
+}
+
+// One step of the player's route; step 0 is the entrance
+export interface PathStep {
+  roomId: number;
+  move: number; // moveCount on arriving
+  timestamp: number; // ms since epoch
+  clueRevealed: boolean; // first visit to a room with a clue
+  rebuilt?: boolean; // recreated from an older save; not necessarily walked this way
 }
 
+// Player notes on a room; they never affect play
+export type RoomMark = 'ruled-out' | 'suspect' | 'dragon';
+
 export interface GameState {
   dungeon: Dungeon;
   currentRoomId: number;
-  visitedRoomIds: Set<number>;
+  path: PathStep[]; // every room entered, in order, revisits included
+  visitedRoomIds: Set<number>; // derived from path
   moveCount: number;
   hasWon: boolean;
-  hasLost: boolean;
+  hasLost: boolean; // walked into the dragon or declared the wrong room
+  declaredRoomId: number | null; // room named as the gem without walking there
+  declaredSquare: [number, number] | null; // empty grid square named as the gem's; always a loss
   clues: Map<number, Clue>; // roomId -> clue
+  assisted: boolean; // deduction overlay was turned on (or an archive move undone) during this game
+  hintsUsed: number; // highest hint tier revealed (0-3)
+  marks: Map<number, RoomMark>; // roomId -> the player's annotation
+}
+
+// Serialized daily progress; optional fields were added after launch
+export interface SavedGameState {
+  date: string;
+  currentRoomId: number;
+  path?: PathStep[];
+  visitedRoomIds?: number[]; // older saves kept only the rooms, not the route
+  moveCount: number;
+  hasWon: boolean;
+  hasLost: boolean;
+  assisted?: boolean;
+  hintsUsed?: number;
+  marks?: [number, RoomMark][];
+  declaredRoomId?: number | null;
+  declaredSquare?: [number, number] | null;
+}
+
+// Progressive hints, from gentlest to most revealing
+export type Hint =
+  | { level: 1; kind: 'best-clue'; roomId: number; eliminated: number }
+  | { level: 2; kind: 'best-direction'; roomId: number; targetId: number }
+  | { level: 3; kind: 'candidates'; roomIds: number[] };
+
+// What a key press does in a game
+export type KeyAction =
+  | { kind: 'move'; roomId: number }
+  | { kind: 'undo' }
+  | { kind: 'restart' };
+
+// How hard a generated puzzle is, and what makes it so
+export interface DifficultyScore {
+  pickaxes: number; // 1 (gentle) to 5 (brutal)
+  cluesToSolve: number | null; // collected nearest-first; null if they never isolate the gem
+  entranceBranches: number; // tunnels out of the entrance
+  deadEnds: number; // rooms with a single tunnel, other than the entrance and the gem
+  dragonThreat: 'none' | 'beside-route' | 'on-route'; // relative to the shortest walks to the gem
+}
+
+// Hindsight on a finished game, worked out from the route taken
+export interface GameAnalysis {
+  knownAtMove: number | null; // first move after which only the gem's room was left; null if never
+  movesAfterKnown: number;
+  shortestAfterKnown: number; // fewest moves from where it became known to the gem
+  wastedMoves: number;
+  redundantClueRoomIds: number[]; // clues collected that ruled out nothing new
 }
 
 export interface GunudRating {
@@ -45,13 +218,90 @@ export interface RatingCounts {
   D: number;
 }
 
+export interface TierStats {
+  gamesPlayed: number;
+  gamesWon: number;
+  gamesLost: number; // eaten by the dragon or named the wrong room
+  ratingCounts: RatingCounts;
+}
+
+// How a game ended; abandoned dailies were started but never finished that day
+export type GameResult =
+  | { outcome: 'win'; moves: number; par: number; hintsUsed: number; declared?: boolean }
+  | { outcome: 'loss' }
+  | { outcome: 'abandoned' };
+
+export type GameOutcome = GameResult['outcome'];
+export type Grade = GunudRating['grade'];
+
+// One daily puzzle as it was played
+export interface DailyRecord {
+  date: string;
+  puzzleNumber: number;
+  result: GameOutcome;
+  moves: number;
+  par: number;
+  grade: Grade | null; // null unless won
+  cluesCollected: number;
+  hintsUsed: number;
+  assisted: boolean;
+  path: number[]; // room ids in move order, entrance first (older records list each room once)
+  declared?: boolean; // ended by declaring the gem (missing on older records)
+  pickaxes?: number; // the puzzle's difficulty score (missing on older records)
+}
+
+// Daily results grouped by the puzzle's difficulty score
+export interface PickaxeStats {
+  pickaxes: number;
+  gamesPlayed: number;
+  gamesWon: number;
+  averageMoves: number; // over winning games
+}
+
+// Totals carried over from before per-day history was kept
+export interface LegacyStats {
+  gamesPlayed: number;
+  gamesWon: number;
+  gamesLost: number;
+  gamesAbandoned: number;
+  currentStreak: number;
+  maxStreak: number;
+  lastPlayedDate: string | null;
+  moveHistory: number[]; // moves taken to win each of the last 30 games
+  ratingCounts: RatingCounts;
+}
+
+// What is persisted; everything in Stats is derived from it
+export interface SavedStats {
+  history: DailyRecord[]; // every daily played, oldest first
+  archive: DailyRecord[]; // past dailies replayed from the archive; never affect streaks
+  legacy: LegacyStats | null;
+  tierStats: Record<Difficulty, TierStats>; // daily and practice results per difficulty
+}
+
 export interface Stats {
   gamesPlayed: number;
   gamesWon: number;
+  gamesLost: number; // eaten by the dragon or named the wrong room
+  gamesAbandoned: number;
   currentStreak: number;
   maxStreak: number;
   lastPlayedDate: string | null;
-  moveHistory: number[]; // moves taken to win each game
+  averageMoves: number; // over winning games
   ratingCounts: RatingCounts;
+  history: DailyRecord[];
+  archive: DailyRecord[];
+  tierStats: Record<Difficulty, TierStats>;
+  pickaxeStats: PickaxeStats[]; // one entry per score from 1 to 5
 }
 
+// Views addressable by URL. Game routes pick the puzzle being played;
+// modal routes open over whichever game they were opened from.
+export type GameRoute =
+  | { view: 'daily' }
+  | { view: 'practice'; seed: PracticeSeed }
+  | { view: 'archive'; date: string };
+
+export type ModalRoute = { view: 'stats' } | { view: 'how-to-play' } | { view: 'archive-list' };
+
+export type Route = GameRoute | ModalRoute;
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { getKeyStep, findRoomInDirection, getKeyAction } from './keyboardNavigation';
+import { applyMove, createGame } from '../engine';
+import type { Dungeon } from '../types';
+
+// Room 0 with tunnels east to 1 and diagonally south-east to 2; room 3 sits
+// south of 0 without a tunnel
+const dungeon: Dungeon = {
+  rooms: [
+    { id: 0, x: 0, y: 0, connections: [1, 2] },
+    { id: 1, x: 1, y: 0, connections: [0] },
+    { id: 2, x: 1, y: 1, connections: [0] },
+    { id: 3, x: 0, y: 1, connections: [] },
+  ],
+  entranceId: 0,
+  treasureId: 2,
+  dragonId: null,
+};
+
+describe('getKeyStep', () => {
+  it('maps arrows, letters and the numpad to grid steps', () => {
+    expect(getKeyStep({ key: 'ArrowRight', code: 'ArrowRight' })).toEqual([1, 0]);
+    expect(getKeyStep({ key: 'C', code: 'KeyC' })).toEqual([1, 1]);
+    expect(getKeyStep({ key: 'PageDown', code: 'Numpad3' })).toEqual([1, 1]);
+    expect(getKeyStep({ key: '8', code: 'Numpad8' })).toEqual([0, -1]);
+  });
+
+  it('ignores other keys', () => {
+    expect(getKeyStep({ key: 's', code: 'KeyS' })).toBeNull();
+    expect(getKeyStep({ key: '8', code: 'Digit8' })).toBeNull();
+    expect(getKeyStep({ key: 'Enter', code: 'Enter' })).toBeNull();
+  });
+});
+
+describe('findRoomInDirection', () => {
+  it('follows straight and diagonal tunnels', () => {
+    expect(findRoomInDirection(dungeon, 0, [1, 0])).toBe(1);
+    expect(findRoomInDirection(dungeon, 0, [1, 1])).toBe(2);
+  });
+
+  it('finds nothing where there is no tunnel', () => {
+    expect(findRoomInDirection(dungeon, 0, [0, 1])).toBeNull();
+    expect(findRoomInDirection(dungeon, 0, [-1, 0])).toBeNull();
+  });
+});
+
+describe('getKeyAction', () => {
+  const state = createGame({ dungeon, clues: new Map() });
+  const context = { state, enabled: true, isDeclaring: false, allowsUndo: true };
+  const press = (key: string, modifiers: { ctrlKey?: boolean } = {}) =>
+    ({ key, code: '', altKey: false, ctrlKey: false, metaKey: false, shiftKey: false, ...modifiers });
+
+  it('moves through the tunnel in the direction pressed', () => {
+    expect(getKeyAction(press('ArrowRight'), context)).toEqual({ kind: 'move', roomId: 1 });
+    expect(getKeyAction(press('ArrowDown'), context)).toBeNull();
+  });
+
+  it('undoes and restarts outside the daily only', () => {
+    expect(getKeyAction(press('u'), context)).toEqual({ kind: 'undo' });
+    expect(getKeyAction(press('z', { ctrlKey: true }), context)).toEqual({ kind: 'undo' });
+    expect(getKeyAction(press('r'), context)).toEqual({ kind: 'restart' });
+    expect(getKeyAction(press('u'), { ...context, allowsUndo: false })).toBeNull();
+  });
+
+  it('does nothing while a modal or the replay is open', () => {
+    const covered = { ...context, enabled: false };
+    expect(getKeyAction(press('ArrowRight'), covered)).toBeNull();
+    expect(getKeyAction(press('u'), covered)).toBeNull();
+    expect(getKeyAction(press('r'), covered)).toBeNull();
+  });
+
+  it('does not move while declaring or once the game is over', () => {
+    expect(getKeyAction(press('ArrowRight'), { ...context, isDeclaring: true })).toBeNull();
+    const won = applyMove(state, 2);
+    expect(getKeyAction(press('q'), { ...context, state: won })).toBeNull();
+  });
+});
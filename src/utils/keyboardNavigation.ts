@@ -0,0 +1,59 @@
+import type { Dungeon, GameState, KeyAction } from '../types';
+import { canMove } from '../engine';
+
+// Grid step for each movement key: arrows for straight tunnels, the numpad
+// and the QWE/ASD/ZXC block around S for diagonals too
+const KEY_STEPS: Record<string, [number, number]> = {
+  arrowup: [0, -1], arrowdown: [0, 1], arrowleft: [-1, 0], arrowright: [1, 0],
+  q: [-1, -1], w: [0, -1], e: [1, -1],
+  a: [-1, 0], d: [1, 0],
+  z: [-1, 1], x: [0, 1], c: [1, 1],
+};
+
+// Numpad keys by position, whatever Num Lock says
+const NUMPAD_STEPS: Record<string, [number, number]> = {
+  Numpad7: [-1, -1], Numpad8: [0, -1], Numpad9: [1, -1],
+  Numpad4: [-1, 0], Numpad6: [1, 0],
+  Numpad1: [-1, 1], Numpad2: [0, 1], Numpad3: [1, 1],
+};
+
+export function getKeyStep(event: Pick<KeyboardEvent, 'key' | 'code'>): [number, number] | null {
+  return NUMPAD_STEPS[event.code] ?? KEY_STEPS[event.key.toLowerCase()] ?? null;
+}
+
+// The room through a tunnel from fromId in the given grid direction, if any
+export function findRoomInDirection(dungeon: Dungeon, fromId: number, [dx, dy]: [number, number]): number | null {
+  const from = dungeon.rooms.find((r) => r.id === fromId);
+  if (!from) return null;
+  const target = dungeon.rooms.find(
+    (r) => from.connections.includes(r.id) && r.x - from.x === dx && r.y - from.y === dy
+  );
+  return target?.id ?? null;
+}
+
+interface KeyContext {
+  state: GameState;
+  enabled: boolean; // off while a modal or the replay covers the map
+  isDeclaring: boolean;
+  allowsUndo: boolean;
+}
+
+type KeyPress = Pick<KeyboardEvent, 'key' | 'code' | 'altKey' | 'ctrlKey' | 'metaKey' | 'shiftKey'>;
+
+// What a key press does: a movement key walks through the tunnel that way,
+// except while declaring; outside the daily, U or Ctrl/Cmd+Z undoes and R
+// restarts. Nothing happens while the game is covered.
+export function getKeyAction(event: KeyPress, { state, enabled, isDeclaring, allowsUndo }: KeyContext): KeyAction | null {
+  if (!enabled || event.altKey) return null;
+  const key = event.key.toLowerCase();
+  const withModifier = event.ctrlKey || event.metaKey;
+  if (allowsUndo && !event.shiftKey) {
+    if ((key === 'u' && !withModifier) || (key === 'z' && withModifier)) return { kind: 'undo' };
+    if (key === 'r' && !withModifier) return { kind: 'restart' };
+  }
+  if (withModifier || isDeclaring) return null;
+  const step = getKeyStep(event);
+  if (!step) return null;
+  const roomId = findRoomInDirection(state.dungeon, state.currentRoomId, step);
+  return roomId !== null && canMove(state, roomId) ? { kind: 'move', roomId } : null;
+}
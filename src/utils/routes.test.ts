@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { parseRoute, formatRoute, isGameRoute } from './routes';
+import type { Route } from '../types';
+
+const TODAY = '2026-04-10';
+
+describe('parseRoute', () => {
+  it('round-trips every view', () => {
+    const routes: Route[] = [
+      { view: 'daily' },
+      { view: 'practice', seed: { difficulty: 'hard', code: 'K7F2QX' } },
+      { view: 'archive', date: '2026-03-01' },
+      { view: 'archive-list' },
+      { view: 'stats' },
+      { view: 'how-to-play' },
+    ];
+    for (const route of routes) {
+      expect(parseRoute(formatRoute(route), '', TODAY)).toEqual(route);
+    }
+  });
+
+  it('tolerates trailing slashes and lowercase seeds', () => {
+    expect(parseRoute('/practice/deep-k7f2qx/', '', TODAY))
+      .toEqual({ view: 'practice', seed: { difficulty: 'deep', code: 'K7F2QX' } });
+  });
+
+  it('opens practice from the legacy seed query', () => {
+    expect(parseRoute('/', '?seed=EASY-ABCDEF', TODAY))
+      .toEqual({ view: 'practice', seed: { difficulty: 'easy', code: 'ABCDEF' } });
+  });
+
+  it('falls back to the daily for anything it does not recognise', () => {
+    for (const path of ['/nope', '/practice/NOT-A-SEED', '/archive/2026-02-30', '/archive/2020-01-01', `/archive/${TODAY}`, '/stats/extra']) {
+      expect(parseRoute(path, '', TODAY)).toEqual({ view: 'daily' });
+    }
+  });
+});
+
+describe('isGameRoute', () => {
+  it('separates puzzles from the modals shown over them', () => {
+    expect(isGameRoute({ view: 'archive', date: '2026-03-01' })).toBe(true);
+    expect(isGameRoute({ view: 'archive-list' })).toBe(false);
+  });
+});
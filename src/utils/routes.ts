@@ -0,0 +1,52 @@
+import type { GameRoute, Route } from '../types';
+import { formatPracticeSeed, parsePracticeSeed, LAUNCH_DATE } from '../dungeon';
+
+const DAILY: GameRoute = { view: 'daily' };
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isGameRoute(route: Route): route is GameRoute {
+  return route.view === 'daily' || route.view === 'practice' || route.view === 'archive';
+}
+
+export function formatRoute(route: Route): string {
+  switch (route.view) {
+    case 'daily': return '/';
+    case 'practice': return `/practice/${formatPracticeSeed(route.seed)}`;
+    case 'archive': return `/archive/${route.date}`;
+    case 'archive-list': return '/archive';
+    case 'stats': return '/stats';
+    case 'how-to-play': return '/how-to-play';
+  }
+}
+
+// Unknown paths, malformed seeds and dates outside the archive all land on
+// the daily. The ?seed= query from older challenge links still opens practice.
+export function parseRoute(pathname: string, search: string, today: string): Route {
+  const segments = pathname.split('/').filter(Boolean);
+  const [first, second] = segments;
+
+  if (segments.length === 0) {
+    const seed = parsePracticeSeed(new URLSearchParams(search).get('seed') ?? '');
+    return seed ? { view: 'practice', seed } : DAILY;
+  }
+  if (segments.length === 1) {
+    if (first === 'stats') return { view: 'stats' };
+    if (first === 'how-to-play') return { view: 'how-to-play' };
+    if (first === 'archive') return { view: 'archive-list' };
+  }
+  if (segments.length === 2 && first === 'practice') {
+    const seed = parsePracticeSeed(second);
+    if (seed) return { view: 'practice', seed };
+  }
+  if (segments.length === 2 && first === 'archive' && isArchiveDate(second, today)) {
+    return { view: 'archive', date: second };
+  }
+  return DAILY;
+}
+
+function isArchiveDate(date: string, today: string): boolean {
+  if (!DATE_PATTERN.test(date) || Number.isNaN(Date.parse(date))) return false;
+  // Round-trip to reject dates like 2026-02-30
+  if (new Date(date).toISOString().split('T')[0] !== date) return false;
+  return date >= LAUNCH_DATE && date < today;
+}
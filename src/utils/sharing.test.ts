@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { getGunudRating, generateShareText } from './sharing';
+import { getGunudRating, generateShareText, getChallengeUrl } from './sharing';
 import type { Dungeon } from '../types';
 
 describe('getGunudRating', () => {
@@ -85,6 +85,37 @@ describe('getGunudRating', () => {
     });
   });
 
+  describe('hint penalty', () => {
+    it('counts each hint as an extra move', () => {
+      expect(getGunudRating(5, 5, 0).grade).toBe('A');
+      expect(getGunudRating(5, 5, 1).grade).toBe('B');
+      expect(getGunudRating(4, 5, 1).grade).toBe('A');
+      expect(getGunudRating(5, 5, 3).grade).toBe('C');
+    });
+
+    it('shows hints used in share text and rates accordingly', () => {
+      const dungeon = { rooms: [{ id: 0, x: 0, y: 0, connections: [] }], entranceId: 0, treasureId: 0, dragonId: null };
+      const result = generateShareText(1, 5, 5, new Set([0]), dungeon, 1, false, 2);
+      expect(result.text).toContain('Rating: B - Iron Seam');
+      expect(result.text).toContain('\u{1F4A1} Hints: 2');
+    });
+  });
+
+  describe('declaring the gem', () => {
+    it('is worth one move', () => {
+      expect(getGunudRating(5, 5, 0, true).grade).toBe('S');
+      expect(getGunudRating(6, 5, 0, true).grade).toBe('A');
+      expect(getGunudRating(6, 5, 1, true).grade).toBe('B');
+    });
+
+    it('marks declared solves in share text', () => {
+      const dungeon = { rooms: [{ id: 0, x: 0, y: 0, connections: [] }], entranceId: 0, treasureId: 0, dragonId: null };
+      const result = generateShareText(1, 5, 5, new Set([0]), dungeon, 1, false, 0, undefined, true);
+      expect(result.text).toContain('Rating: S');
+      expect(result.text).toContain('\u{1F52E} Declared');
+    });
+  });
+
   describe('with typical par values (4-6)', () => {
     it('par 4: 3 moves = S, 4 = A, 5-6 = B, 7-8 = C, 9+ = D', () => {
       expect(getGunudRating(3, 4).grade).toBe('S');
@@ -149,6 +180,16 @@ describe('generateShareText', () => {
     expect(result.text).toContain('Clues: 7');
   });
 
+  it('marks assisted solves', () => {
+    const result = generateShareText(42, 5, 5, new Set([0, 1, 2, 3]), testDungeon, 4, true);
+    expect(result.text).toContain('Clues: 4 | \u{1F50E} Assisted');
+  });
+
+  it('does not mark unassisted solves', () => {
+    const result = generateShareText(42, 5, 5, new Set([0, 1, 2, 3]), testDungeon, 4);
+    expect(result.text).not.toContain('Assisted');
+  });
+
   it('includes site URL', () => {
     const result = generateShareText(42, 5, 5, new Set([0, 1, 2, 3]), testDungeon);
     expect(result.text).toContain('gunud.vercel.app');
@@ -204,3 +245,19 @@ describe('generateShareText', () => {
     });
   });
 });
+
+describe('practice challenges', () => {
+  const dungeon: Dungeon = { rooms: [{ id: 0, x: 0, y: 0, connections: [] }], entranceId: 0, treasureId: 0, dragonId: null };
+
+  it('titles practice shares with the seed code and links to it', () => {
+    const { text } = generateShareText(1, 5, 5, new Set([0]), dungeon, 1, true, 0, 'HARD-K7F2QX');
+    expect(text.startsWith('Gunud Practice HARD-K7F2QX')).toBe(true);
+    expect(text).toContain('gunud.vercel.app/practice/HARD-K7F2QX');
+    expect(text).not.toContain('#1');
+  });
+
+  it('links challenges to the practice route', () => {
+    expect(getChallengeUrl('DEEP-ABCDEF', 'https://gunud.vercel.app'))
+      .toBe('https://gunud.vercel.app/practice/DEEP-ABCDEF');
+  });
+});
@@ -5,8 +5,12 @@ export interface ShareResult {
   emojiGrid: string;
 }
 
-export function getGunudRating(moves: number, par: number): GunudRating {
-  const diff = moves - par;
+// Declaring the gem from afar instead of walking in is worth a move
+export const DECLARE_BONUS = 1;
+
+// Each hint tier used costs one move
+export function getGunudRating(moves: number, par: number, hintsUsed = 0, declared = false): GunudRating {
+  const diff = moves + hintsUsed - par - (declared ? DECLARE_BONUS : 0);
   if (diff < 0) return { grade: 'S', name: 'Mithril Vein', emoji: '\u2728' };
   if (diff === 0) return { grade: 'A', name: 'Gold Strike', emoji: '\u26A1' };
   if (diff <= 2) return { grade: 'B', name: 'Iron Seam', emoji: '\u26CF\uFE0F' };
@@ -14,27 +18,40 @@ export function getGunudRating(moves: number, par: number): GunudRating {
   return { grade: 'D', name: 'Cave-in', emoji: '\uD83D\uDC80' };
 }
 
-// Generate share text with emoji grid
+// Link that opens a practice dungeon for whoever follows it
+export function getChallengeUrl(seedCode: string, origin: string): string {
+  return `${origin}/practice/${seedCode}`;
+}
+
+// Generate share text with emoji grid; practice results carry their seed
+// code instead of a puzzle number so friends can take on the same dungeon
 export function generateShareText(
   puzzleNumber: number,
   moves: number,
   par: number,
   visitedRoomIds: Set<number>,
   dungeon: Dungeon,
-  clueCount?: number
+  clueCount?: number,
+  assisted = false,
+  hintsUsed = 0,
+  seedCode?: string,
+  declared = false
 ): ShareResult {
   const emojiGrid = generateEmojiGrid(dungeon, visitedRoomIds);
-  const rating = getGunudRating(moves, par);
+  const rating = getGunudRating(moves, par, hintsUsed, declared);
   const clues = clueCount ?? visitedRoomIds.size;
 
-  const text = `Gunud #${puzzleNumber}
+  const title = seedCode ? `Gunud Practice ${seedCode}` : `Gunud #${puzzleNumber}`;
+  const link = seedCode ? `gunud.vercel.app/practice/${seedCode}` : 'gunud.vercel.app';
+
+  const text = `${title}
 
 ${emojiGrid}
 
 Rating: ${rating.grade} - ${rating.name} ${rating.emoji}
-${moves} moves (Par: ${par}) | Clues: ${clues}
+${moves} moves (Par: ${par}) | Clues: ${clues}${declared ? ' | \u{1F52E} Declared' : ''}${hintsUsed > 0 ? ` | \u{1F4A1} Hints: ${hintsUsed}` : ''}${assisted ? ' | \u{1F50E} Assisted' : ''}
 
-gunud.vercel.app`;
+${link}`;
 
   return { text, emojiGrid };
 }
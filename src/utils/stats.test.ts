@@ -0,0 +1,242 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createDefaultStats,
+  createDailyRecord,
+  migrateStats,
+  recordDailyResult,
+  recordPracticeResult,
+  recordArchiveResult,
+  deriveStats,
+  getWinPercentage,
+} from './stats';
+import { createGame, applyMove, declareGem } from '../engine';
+import { createClue } from '../dungeon';
+import type { Clue, DailyRecord, GameOutcome, Puzzle, SavedStats } from '../types';
+
+function record(date: string, result: GameOutcome = 'win', moves = 5, par = 5): DailyRecord {
+  return {
+    date,
+    puzzleNumber: 1,
+    result,
+    moves,
+    par,
+    grade: result === 'win' ? (moves < par ? 'S' : 'A') : null,
+    cluesCollected: 2,
+    hintsUsed: 0,
+    assisted: false,
+    path: [0, 1],
+  };
+}
+
+function play(...records: DailyRecord[]): SavedStats {
+  return records.reduce(recordDailyResult, createDefaultStats());
+}
+
+describe('deriveStats', () => {
+  it('extends the streak on consecutive wins', () => {
+    const stats = deriveStats(play(record('2026-03-01'), record('2026-03-02', 'win', 4)));
+    expect(stats.gamesPlayed).toBe(2);
+    expect(stats.gamesWon).toBe(2);
+    expect(stats.currentStreak).toBe(2);
+    expect(stats.maxStreak).toBe(2);
+    expect(stats.averageMoves).toBe(4.5);
+    expect(stats.ratingCounts.A).toBe(1);
+    expect(stats.ratingCounts.S).toBe(1);
+    expect(stats.lastPlayedDate).toBe('2026-03-02');
+  });
+
+  it('restarts the streak after a missed day', () => {
+    const stats = deriveStats(play(record('2026-03-01'), record('2026-03-03')));
+    expect(stats.currentStreak).toBe(1);
+    expect(stats.maxStreak).toBe(1);
+  });
+
+  it('counts a dragon death as played, lost, and streak-breaking', () => {
+    const saved = play(record('2026-03-01'), record('2026-03-02', 'loss'));
+    let stats = deriveStats(saved);
+    expect(stats.gamesPlayed).toBe(2);
+    expect(stats.gamesWon).toBe(1);
+    expect(stats.gamesLost).toBe(1);
+    expect(stats.currentStreak).toBe(0);
+    expect(stats.maxStreak).toBe(1);
+    expect(stats.averageMoves).toBe(5);
+    expect(stats.tierStats.normal.gamesLost).toBe(1);
+
+    stats = deriveStats(recordDailyResult(saved, record('2026-03-03')));
+    expect(stats.currentStreak).toBe(1);
+  });
+
+  it('counts abandoned dailies separately from deaths', () => {
+    const stats = deriveStats(play(record('2026-03-01', 'abandoned')));
+    expect(stats.gamesPlayed).toBe(1);
+    expect(stats.gamesAbandoned).toBe(1);
+    expect(stats.gamesLost).toBe(0);
+    expect(stats.tierStats.normal.gamesPlayed).toBe(1);
+  });
+
+  it('groups scored dailies by their pickaxes', () => {
+    const stats = deriveStats(play(
+      { ...record('2026-03-01', 'win', 4), pickaxes: 3 },
+      { ...record('2026-03-02', 'loss'), pickaxes: 3 },
+      { ...record('2026-03-03', 'win', 6), pickaxes: 3 },
+      record('2026-03-04'),
+    ));
+    expect(stats.pickaxeStats).toHaveLength(5);
+    expect(stats.pickaxeStats[2]).toEqual({ pickaxes: 3, gamesPlayed: 3, gamesWon: 2, averageMoves: 5 });
+    expect(stats.pickaxeStats[0].gamesPlayed).toBe(0);
+  });
+
+  it('continues a streak carried over from legacy totals', () => {
+    const saved = migrateStats({
+      gamesPlayed: 4, gamesWon: 4, currentStreak: 4, maxStreak: 4,
+      lastPlayedDate: '2026-03-01', moveHistory: [6, 6, 6, 6], ratingCounts: { S: 0, A: 0, B: 4, C: 0, D: 0 },
+    });
+    const stats = deriveStats(recordDailyResult(saved, record('2026-03-02', 'win', 1)));
+    expect(stats.gamesPlayed).toBe(5);
+    expect(stats.currentStreak).toBe(5);
+    expect(stats.maxStreak).toBe(5);
+    expect(stats.averageMoves).toBe(5);
+    expect(stats.ratingCounts).toEqual({ S: 1, A: 0, B: 4, C: 0, D: 0 });
+  });
+});
+
+describe('recordDailyResult', () => {
+  it('records each date only once and in order', () => {
+    const saved = play(record('2026-03-02'));
+    expect(recordDailyResult(saved, record('2026-03-02', 'loss'))).toBe(saved);
+    expect(recordDailyResult(saved, record('2026-03-01', 'abandoned'))).toBe(saved);
+  });
+
+  it('keeps every daily, not just the last 30', () => {
+    const days = Array.from({ length: 40 }, (_, i) =>
+      record(new Date(Date.UTC(2026, 2, 1 + i)).toISOString().split('T')[0]));
+    expect(play(...days).history).toHaveLength(40);
+  });
+});
+
+describe('createDailyRecord', () => {
+  const puzzle: Puzzle = {
+    seed: '2026-03-01',
+    dungeon: {
+      rooms: [
+        { id: 0, x: 0, y: 0, connections: [1] },
+        { id: 1, x: 1, y: 0, connections: [0, 2] },
+        { id: 2, x: 2, y: 0, connections: [1] },
+      ],
+      entranceId: 0,
+      treasureId: 2,
+      dragonId: null,
+    },
+    clues: new Map<number, Clue>([
+      [0, createClue({ category: 'spatial', axis: 'x', sign: 1 })],
+      [1, createClue({ category: 'exits', exitCount: 1 })],
+    ]),
+  };
+
+  it('summarizes a won daily', () => {
+    const game = [1, 2].reduce(applyMove, createGame(puzzle));
+    expect(createDailyRecord('2026-03-01', game, 3)).toEqual({
+      date: '2026-03-01',
+      puzzleNumber: 25,
+      result: 'win',
+      moves: 2,
+      par: 3,
+      grade: 'S',
+      cluesCollected: 2,
+      hintsUsed: 0,
+      assisted: false,
+      path: [0, 1, 2],
+      declared: false,
+      pickaxes: 1,
+    });
+  });
+
+  it('keeps the route in move order and counts each clue once', () => {
+    const game = [1, 0, 1, 2].reduce(applyMove, createGame(puzzle));
+    const won = createDailyRecord('2026-03-01', game, 3);
+    expect(won.path).toEqual([0, 1, 0, 1, 2]);
+    expect(won.cluesCollected).toBe(2);
+  });
+
+  it('grades a declared solve with the declaration bonus', () => {
+    const game = declareGem(applyMove(createGame(puzzle), 1), 2);
+    const declared = createDailyRecord('2026-03-01', game, 2);
+    expect(declared.result).toBe('win');
+    expect(declared.declared).toBe(true);
+    expect(declared.grade).toBe('S');
+  });
+
+  it('marks unfinished dailies as abandoned without a grade', () => {
+    const game = applyMove(createGame(puzzle), 1);
+    const abandoned = createDailyRecord('2026-03-01', game, 3);
+    expect(abandoned.result).toBe('abandoned');
+    expect(abandoned.grade).toBeNull();
+  });
+});
+
+describe('recordArchiveResult', () => {
+  it('keeps archive results out of the daily totals and streaks', () => {
+    let saved = play(record('2026-03-05'));
+    saved = recordArchiveResult(saved, record('2026-03-04', 'loss'));
+    const stats = deriveStats(saved);
+    expect(stats.archive).toHaveLength(1);
+    expect(stats.gamesPlayed).toBe(1);
+    expect(stats.gamesLost).toBe(0);
+    expect(stats.currentStreak).toBe(1);
+    expect(stats.tierStats.normal.gamesPlayed).toBe(1);
+  });
+
+  it('records each archived date once', () => {
+    const saved = recordArchiveResult(createDefaultStats(), record('2026-03-04'));
+    expect(recordArchiveResult(saved, record('2026-03-04', 'loss'))).toBe(saved);
+  });
+});
+
+describe('recordPracticeResult', () => {
+  it('only touches the difficulty tier', () => {
+    const saved = recordPracticeResult(createDefaultStats(), 'hard', { outcome: 'loss' });
+    expect(saved.history).toEqual([]);
+    expect(saved.tierStats.hard).toEqual({ gamesPlayed: 1, gamesWon: 0, gamesLost: 1, ratingCounts: { S: 0, A: 0, B: 0, C: 0, D: 0 } });
+  });
+});
+
+describe('migrateStats', () => {
+  it('turns aggregate-only stats into a legacy baseline', () => {
+    const saved = migrateStats({
+      gamesPlayed: 3,
+      gamesWon: 3,
+      currentStreak: 3,
+      maxStreak: 3,
+      lastPlayedDate: '2026-03-03',
+      moveHistory: [5, 6, 7],
+      ratingCounts: { S: 0, A: 1, B: 1, C: 1, D: 0 },
+    });
+    expect(saved.history).toEqual([]);
+    expect(saved.legacy?.gamesLost).toBe(0);
+    expect(saved.tierStats.normal).toEqual({
+      gamesPlayed: 3, gamesWon: 3, gamesLost: 0, ratingCounts: { S: 0, A: 1, B: 1, C: 1, D: 0 },
+    });
+
+    const stats = deriveStats(saved);
+    expect(stats.gamesPlayed).toBe(3);
+    expect(stats.currentStreak).toBe(3);
+    expect(stats.averageMoves).toBe(6);
+    expect(stats.lastPlayedDate).toBe('2026-03-03');
+  });
+
+  it('starts fresh players without a baseline', () => {
+    expect(migrateStats({}).legacy).toBeNull();
+  });
+
+  it('keeps stats already in the current shape', () => {
+    const current = play(record('2026-03-01'), record('2026-03-02', 'loss'));
+    expect(migrateStats(JSON.parse(JSON.stringify(current)))).toEqual(current);
+  });
+});
+
+describe('getWinPercentage', () => {
+  it('rounds the share of games won', () => {
+    expect(getWinPercentage({ gamesPlayed: 3, gamesWon: 2 })).toBe(67);
+    expect(getWinPercentage({ gamesPlayed: 0, gamesWon: 0 })).toBe(0);
+  });
+});
@@ -0,0 +1,219 @@
+import type {
+  DailyRecord,
+  Difficulty,
+  GameResult,
+  GameState,
+  LegacyStats,
+  PickaxeStats,
+  RatingCounts,
+  SavedStats,
+  Stats,
+  TierStats,
+} from '../types';
+import { getPreviousDateString, getPuzzleNumber, scoreDifficulty, MAX_PICKAXES } from '../dungeon';
+import { hasDeclared } from '../engine';
+import { getGunudRating } from './sharing';
+
+const DEFAULT_RATING_COUNTS: RatingCounts = { S: 0, A: 0, B: 0, C: 0, D: 0 };
+
+function createTierStats(): TierStats {
+  return { gamesPlayed: 0, gamesWon: 0, gamesLost: 0, ratingCounts: { ...DEFAULT_RATING_COUNTS } };
+}
+
+function createDefaultTierStats(): Record<Difficulty, TierStats> {
+  return {
+    easy: createTierStats(),
+    normal: createTierStats(),
+    hard: createTierStats(),
+    deep: createTierStats(),
+  };
+}
+
+export function createDefaultStats(): SavedStats {
+  return { history: [], archive: [], legacy: null, tierStats: createDefaultTierStats() };
+}
+
+// Bring stats saved by older versions up to the current shape
+export function migrateStats(parsed: Partial<SavedStats> & Partial<LegacyStats>): SavedStats {
+  // Already keeping per-day history
+  if (Array.isArray(parsed.history)) {
+    return {
+      history: parsed.history,
+      archive: parsed.archive ?? [],
+      legacy: parsed.legacy ?? null,
+      tierStats: migrateTierStats(parsed.tierStats),
+    };
+  }
+
+  // Aggregate-only stats become the legacy baseline the history builds on
+  const legacy: LegacyStats = {
+    gamesPlayed: parsed.gamesPlayed ?? 0,
+    gamesWon: parsed.gamesWon ?? 0,
+    gamesLost: parsed.gamesLost ?? 0,
+    gamesAbandoned: parsed.gamesAbandoned ?? 0,
+    currentStreak: parsed.currentStreak ?? 0,
+    maxStreak: parsed.maxStreak ?? 0,
+    lastPlayedDate: parsed.lastPlayedDate ?? null,
+    moveHistory: parsed.moveHistory ?? [],
+    // Migration: add ratingCounts if missing (backwards compatibility)
+    ratingCounts: parsed.ratingCounts ?? { ...DEFAULT_RATING_COUNTS },
+  };
+
+  // Migration: add tierStats if missing; earlier dailies were all Normal
+  let tierStats = parsed.tierStats;
+  if (!tierStats) {
+    tierStats = createDefaultTierStats();
+    tierStats.normal = {
+      gamesPlayed: legacy.gamesPlayed,
+      gamesWon: legacy.gamesWon,
+      gamesLost: legacy.gamesLost,
+      ratingCounts: { ...legacy.ratingCounts },
+    };
+  }
+
+  return {
+    history: [],
+    archive: [],
+    legacy: legacy.gamesPlayed > 0 ? legacy : null,
+    tierStats: migrateTierStats(tierStats),
+  };
+}
+
+// Migration: losses were never recorded before, so every tier starts at zero
+function migrateTierStats(tierStats: Record<Difficulty, TierStats> | undefined): Record<Difficulty, TierStats> {
+  const migrated = createDefaultTierStats();
+  for (const tier of Object.keys(migrated) as Difficulty[]) {
+    const saved = tierStats?.[tier];
+    if (saved) migrated[tier] = { ...saved, gamesLost: saved.gamesLost ?? 0 };
+  }
+  return migrated;
+}
+
+// Summarize a finished (or abandoned) daily for the history log
+export function createDailyRecord(date: string, game: GameState, par: number): DailyRecord {
+  const result = game.hasWon ? 'win' : game.hasLost ? 'loss' : 'abandoned';
+  const path = game.path.map((step) => step.roomId);
+  const declared = hasDeclared(game);
+  return {
+    date,
+    puzzleNumber: getPuzzleNumber(date),
+    result,
+    moves: game.moveCount,
+    par,
+    grade: result === 'win' ? getGunudRating(game.moveCount, par, game.hintsUsed, declared).grade : null,
+    cluesCollected: game.path.filter((step) => step.clueRevealed).length,
+    hintsUsed: game.hintsUsed,
+    assisted: game.assisted,
+    path,
+    declared,
+    pickaxes: scoreDifficulty(game).pickaxes,
+  };
+}
+
+function toGameResult(record: DailyRecord): GameResult {
+  if (record.result === 'win') {
+    return { outcome: 'win', moves: record.moves, par: record.par, hintsUsed: record.hintsUsed, declared: record.declared };
+  }
+  return { outcome: record.result };
+}
+
+function addTierResult(
+  tierStats: Record<Difficulty, TierStats>,
+  difficulty: Difficulty,
+  result: GameResult
+): Record<Difficulty, TierStats> {
+  const prev = tierStats[difficulty];
+  const next: TierStats = { ...prev, gamesPlayed: prev.gamesPlayed + 1 };
+  if (result.outcome === 'win') {
+    const { grade } = getGunudRating(result.moves, result.par, result.hintsUsed, result.declared);
+    next.gamesWon = prev.gamesWon + 1;
+    next.ratingCounts = { ...prev.ratingCounts, [grade]: prev.ratingCounts[grade] + 1 };
+  } else if (result.outcome === 'loss') {
+    next.gamesLost = prev.gamesLost + 1;
+  }
+  return { ...tierStats, [difficulty]: next };
+}
+
+// Results per difficulty score, for dailies recorded since scores were kept
+function derivePickaxeStats(history: DailyRecord[]): PickaxeStats[] {
+  return Array.from({ length: MAX_PICKAXES }, (_, i) => {
+    const records = history.filter((r) => r.pickaxes === i + 1);
+    const wins = records.filter((r) => r.result === 'win');
+    return {
+      pickaxes: i + 1,
+      gamesPlayed: records.length,
+      gamesWon: wins.length,
+      averageMoves: wins.length > 0 ? wins.reduce((sum, r) => sum + r.moves, 0) / wins.length : 0,
+    };
+  });
+}
+
+function getLastPlayedDate(saved: SavedStats): string | null {
+  return saved.history.at(-1)?.date ?? saved.legacy?.lastPlayedDate ?? null;
+}
+
+// Append the daily for a date; each date counts once and in order
+export function recordDailyResult(prev: SavedStats, record: DailyRecord): SavedStats {
+  const lastPlayedDate = getLastPlayedDate(prev);
+  if (lastPlayedDate !== null && lastPlayedDate >= record.date) return prev;
+  return {
+    ...prev,
+    history: [...prev.history, record],
+    tierStats: addTierResult(prev.tierStats, 'normal', toGameResult(record)),
+  };
+}
+
+// Archive results are kept apart from the daily history, one per date
+export function recordArchiveResult(prev: SavedStats, record: DailyRecord): SavedStats {
+  if (prev.archive.some((r) => r.date === record.date)) return prev;
+  return { ...prev, archive: [...prev.archive, record] };
+}
+
+// Practice results only count towards their difficulty tier
+export function recordPracticeResult(prev: SavedStats, difficulty: Difficulty, result: GameResult): SavedStats {
+  return { ...prev, tierStats: addTierResult(prev.tierStats, difficulty, result) };
+}
+
+// Totals, streaks and averages over the legacy baseline plus the history.
+// Only wins extend the streak; a loss, abandoned or missed day resets it.
+export function deriveStats(saved: SavedStats): Stats {
+  const { history, archive, legacy, tierStats } = saved;
+  const ratingCounts = { ...(legacy?.ratingCounts ?? DEFAULT_RATING_COUNTS) };
+  const winningMoves = [...(legacy?.moveHistory ?? [])];
+  let currentStreak = legacy?.currentStreak ?? 0;
+  let maxStreak = legacy?.maxStreak ?? 0;
+  let previousDate = legacy?.lastPlayedDate ?? null;
+
+  for (const record of history) {
+    if (record.result === 'win') {
+      currentStreak = previousDate === getPreviousDateString(record.date) ? currentStreak + 1 : 1;
+      maxStreak = Math.max(maxStreak, currentStreak);
+      winningMoves.push(record.moves);
+      if (record.grade) ratingCounts[record.grade]++;
+    } else {
+      currentStreak = 0;
+    }
+    previousDate = record.date;
+  }
+
+  const count = (result: DailyRecord['result']) => history.filter((r) => r.result === result).length;
+  return {
+    gamesPlayed: (legacy?.gamesPlayed ?? 0) + history.length,
+    gamesWon: (legacy?.gamesWon ?? 0) + count('win'),
+    gamesLost: (legacy?.gamesLost ?? 0) + count('loss'),
+    gamesAbandoned: (legacy?.gamesAbandoned ?? 0) + count('abandoned'),
+    currentStreak,
+    maxStreak,
+    lastPlayedDate: previousDate,
+    averageMoves: winningMoves.length > 0 ? winningMoves.reduce((a, b) => a + b, 0) / winningMoves.length : 0,
+    ratingCounts,
+    history,
+    archive,
+    tierStats,
+    pickaxeStats: derivePickaxeStats(history),
+  };
+}
+
+export function getWinPercentage(stats: Pick<Stats, 'gamesPlayed' | 'gamesWon'>): number {
+  return stats.gamesPlayed > 0 ? Math.round((stats.gamesWon / stats.gamesPlayed) * 100) : 0;
+}